@@ -1,20 +1,27 @@
 import * as vscode from "vscode";
-import { useRelay } from "./providers/relayProvider";
-import { useRemoteFS } from "./providers/fileSystemProvider";
+import { useRelays } from "./providers/relayProvider";
+import { SERVER_VERSION_SCHEME, useRemoteFS } from "./providers/fileSystemProvider";
 import { useStatusBar } from "./providers/statusBarProvider";
 import { useCommands } from "./providers/commandProvider";
 import { useSearchProvider } from "./providers/searchProvider";
 import { useSearchView } from "./providers/searchViewWebviewProvider";
+import { useDiagnostics } from "./providers/diagnosticsProvider";
+import { useTrace } from "./providers/traceProvider";
+import { useSync } from "./providers/syncProvider";
+import { useTail } from "./providers/tailProvider";
 
 export function activate(context: vscode.ExtensionContext) {
-	const relay = useRelay();
-	const remoteFS = useRemoteFS(relay, context);
+	const relays = useRelays();
+	const remoteFS = useRemoteFS(relays, context);
 	const fileSystemProvider = vscode.workspace.registerFileSystemProvider("gmod", remoteFS, { isCaseSensitive: true });
 
-	context.subscriptions.push(fileSystemProvider);
-	useStatusBar(context, relay);
-	useCommands(context, relay);
-	useSearchProvider(relay);
+	context.subscriptions.push(
+		fileSystemProvider,
+		vscode.workspace.registerTextDocumentContentProvider(SERVER_VERSION_SCHEME, remoteFS)
+	);
+	useStatusBar(context, relays);
+	useCommands(context, relays);
+	useSearchProvider(relays);
 
 	const searchViewProvider = useSearchView(context);
 
@@ -29,6 +36,54 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	const diagnostics = useDiagnostics(context, relays);
+
+	context.subscriptions.push(
+		diagnostics,
+		vscode.commands.registerCommand("gmod-remote.showDiagnostics", () => {
+			diagnostics.show();
+		})
+	);
+
+	const trace = useTrace(relays);
+
+	context.subscriptions.push(
+		trace,
+		vscode.commands.registerCommand("gmod-remote.recordTrace", () => {
+			trace.startRecording();
+		}),
+		vscode.commands.registerCommand("gmod-remote.stopTrace", () => {
+			trace.stopRecording();
+		}),
+		vscode.commands.registerCommand("gmod-remote.replayTrace", () => {
+			trace.replay();
+		})
+	);
+
+	const sync = useSync(relays, context);
+
+	context.subscriptions.push(
+		sync,
+		vscode.commands.registerCommand("gmod-remote.syncFolder", () => {
+			sync.sync();
+		}),
+		vscode.commands.registerCommand("gmod-remote.addSyncFolder", () => {
+			sync.addMapping();
+		})
+	);
+
+	const tails = useTail(relays, context);
+
+	context.subscriptions.push(
+		tails,
+		vscode.commands.registerCommand("gmod-remote.tailFile", (uri?: vscode.Uri) => {
+			tails.start(uri);
+		}),
+		vscode.commands.registerCommand("gmod-remote.stopTail", () => {
+			tails.stop();
+		})
+	);
+
 	remoteFS.restoreConnection();
 }
 
@@ -0,0 +1,22 @@
+import * as vscode from "vscode";
+import { RelayCancellationSignal } from "../types";
+
+function isAbortSignal(signal: RelayCancellationSignal): signal is AbortSignal {
+	return "aborted" in signal;
+}
+
+export function isCancelled(signal: RelayCancellationSignal) {
+	return isAbortSignal(signal) ? signal.aborted : signal.isCancellationRequested;
+}
+
+export function onCancelled(signal: RelayCancellationSignal, listener: () => void): () => void {
+	if (isAbortSignal(signal)) {
+		signal.addEventListener("abort", listener, { once: true });
+
+		return () => signal.removeEventListener("abort", listener);
+	}
+
+	const subscription: vscode.Disposable = signal.onCancellationRequested(listener);
+
+	return () => subscription.dispose();
+}
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { xorBuffer } from "./xor";
+import { RelayCipher } from "../types";
+
+export const SUPPORTED_CIPHERS: RelayCipher[] = ["aes-256-gcm", "xor"];
+export const AUTHENTICATED_CIPHERS: RelayCipher[] = ["aes-256-gcm"];
+
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DIRECTION_CLIENT = 1;
+const DIRECTION_SERVER = 2;
+
+export class CipherError extends Error { }
+
+// Binds a sealed payload to the cleartext envelope fields it travels with
+export function associatedData(...parts: (string | number)[]) {
+	return Buffer.from(JSON.stringify(parts), "utf8");
+}
+
+export interface PayloadCipher {
+	readonly name: RelayCipher;
+	seal(data: Buffer, aad?: Buffer): Buffer;
+	open(data: Buffer, aad?: Buffer): Buffer;
+}
+
+class NoneCipher implements PayloadCipher {
+	readonly name = "none";
+
+	seal(data: Buffer) {
+		return data;
+	}
+
+	open(data: Buffer) {
+		return data;
+	}
+}
+
+class XorCipher implements PayloadCipher {
+	readonly name = "xor";
+
+	constructor(private key: string) { }
+
+	seal(data: Buffer) {
+		return xorBuffer(data, this.key);
+	}
+
+	open(data: Buffer) {
+		return xorBuffer(data, this.key);
+	}
+}
+
+class AesGcmCipher implements PayloadCipher {
+	readonly name = "aes-256-gcm";
+	private key: Buffer;
+	private sendCounter = 0n;
+	private receiveCounter = -1n;
+
+	constructor(secret: string, salt: Buffer) {
+		this.key = Buffer.from(crypto.hkdfSync("sha256", secret, salt, "gmsv_remote aes-256-gcm", 32));
+	}
+
+	seal(data: Buffer, aad?: Buffer) {
+		const nonce = Buffer.alloc(NONCE_LENGTH);
+
+		nonce.writeUInt32BE(DIRECTION_CLIENT, 0);
+		nonce.writeBigUInt64BE(this.sendCounter++, 4);
+
+		const cipher = crypto.createCipheriv("aes-256-gcm", this.key, nonce, { authTagLength: TAG_LENGTH });
+
+		if (aad) {
+			cipher.setAAD(aad);
+		}
+
+		const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+		return Buffer.concat([nonce, encrypted, cipher.getAuthTag()]);
+	}
+
+	open(data: Buffer, aad?: Buffer) {
+		if (data.length < NONCE_LENGTH + TAG_LENGTH) {
+			throw new CipherError("Encrypted payload is too short");
+		}
+
+		const nonce = data.subarray(0, NONCE_LENGTH);
+
+		if (nonce.readUInt32BE(0) !== DIRECTION_SERVER) {
+			throw new CipherError("Encrypted payload has an invalid direction");
+		}
+
+		const counter = nonce.readBigUInt64BE(4);
+
+		if (counter <= this.receiveCounter) {
+			throw new CipherError("Encrypted payload was replayed");
+		}
+
+		const decipher = crypto.createDecipheriv("aes-256-gcm", this.key, nonce, { authTagLength: TAG_LENGTH });
+		decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+
+		if (aad) {
+			decipher.setAAD(aad);
+		}
+
+		let decrypted: Buffer;
+
+		try {
+			decrypted = Buffer.concat([decipher.update(data.subarray(NONCE_LENGTH, data.length - TAG_LENGTH)), decipher.final()]);
+		} catch {
+			throw new CipherError("Encrypted payload failed authentication, check the encryption key");
+		}
+
+		this.receiveCounter = counter;
+
+		return decrypted;
+	}
+}
+
+export function createCipher(name: RelayCipher, secret: string | null, salt: Buffer): PayloadCipher {
+	if (name === "none" || !secret || secret.length === 0) {
+		return new NoneCipher();
+	}
+
+	if (name === "xor") {
+		return new XorCipher(secret);
+	}
+
+	if (name === "aes-256-gcm") {
+		return new AesGcmCipher(secret, salt);
+	}
+
+	throw new CipherError(`Unsupported cipher: ${name}`);
+}
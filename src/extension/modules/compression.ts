@@ -0,0 +1,56 @@
+import zlib from "zlib";
+import { RelayCompression } from "../types";
+
+export const SUPPORTED_COMPRESSION: RelayCompression[] = ["br", "deflate"];
+
+const FLAG_RAW = 0;
+const FLAG_COMPRESSED = 1;
+
+export class PayloadCodec {
+	constructor(readonly algorithm: RelayCompression, private threshold: number) { }
+
+	pack(data: Buffer): Buffer {
+		if (this.algorithm === "none") {
+			return data;
+		}
+
+		if (data.length < this.threshold) {
+			return Buffer.concat([Buffer.from([FLAG_RAW]), data]);
+		}
+
+		return Buffer.concat([Buffer.from([FLAG_COMPRESSED]), this.compress(data)]);
+	}
+
+	unpack(data: Buffer): Buffer {
+		if (this.algorithm === "none") {
+			return data;
+		}
+
+		if (data.length === 0) {
+			throw new Error("Compressed payload is missing its header");
+		}
+
+		const body = data.subarray(1);
+
+		switch (data[0]) {
+			case FLAG_RAW:
+				return body;
+			case FLAG_COMPRESSED:
+				return this.decompress(body);
+			default:
+				throw new Error(`Unknown compression flag ${data[0]}`);
+		}
+	}
+
+	private compress(data: Buffer) {
+		return this.algorithm === "br"
+			? zlib.brotliCompressSync(data, { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: 5 } })
+			: zlib.deflateRawSync(data);
+	}
+
+	private decompress(data: Buffer) {
+		return this.algorithm === "br"
+			? zlib.brotliDecompressSync(data)
+			: zlib.inflateRawSync(data);
+	}
+}
@@ -0,0 +1,28 @@
+import { RelayBinaryFrame } from "../types";
+
+export const FRAME_HEADER_LENGTH = 8;
+
+export function frameHeader(requestId: number, sequence: number): Buffer {
+	const header = Buffer.alloc(FRAME_HEADER_LENGTH);
+
+	header.writeUInt32BE(requestId, 0);
+	header.writeUInt32BE(sequence, 4);
+
+	return header;
+}
+
+export function encodeFrame(frame: RelayBinaryFrame): Buffer {
+	return Buffer.concat([frameHeader(frame.requestId, frame.sequence), frame.payload]);
+}
+
+export function decodeFrame(data: Buffer): RelayBinaryFrame | null {
+	if (data.length < FRAME_HEADER_LENGTH) {
+		return null;
+	}
+
+	return {
+		requestId: data.readUInt32BE(0),
+		sequence: data.readUInt32BE(4),
+		payload: data.subarray(FRAME_HEADER_LENGTH)
+	};
+}
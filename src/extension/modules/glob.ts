@@ -0,0 +1,16 @@
+export function globToRegExp(glob: string) {
+	const source = glob
+		.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+		.replace(/\*\*\//g, "\u0000")
+		.replace(/\*\*/g, "\u0001")
+		.replace(/\*/g, "[^/]*")
+		.replace(/\?/g, "[^/]")
+		.replace(/\u0000/g, "(?:.*/)?")
+		.replace(/\u0001/g, ".*");
+
+	return new RegExp(`^${source}$`);
+}
+
+export function matchesAny(patterns: RegExp[], filePath: string) {
+	return patterns.some((pattern) => pattern.test(filePath));
+}
@@ -0,0 +1,67 @@
+import crypto from "crypto";
+import { IntegrityAlgorithm } from "../types";
+
+export const SUPPORTED_INTEGRITY: IntegrityAlgorithm[] = ["sha256", "crc32"];
+
+const CRC32_TABLE = (() => {
+	const table = new Uint32Array(256);
+
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+
+		table[n] = c >>> 0;
+	}
+
+	return table;
+})();
+
+export interface IntegrityHasher {
+	update(data: Uint8Array): void;
+	digest(): string;
+}
+
+class Sha256Hasher implements IntegrityHasher {
+	private hash = crypto.createHash("sha256");
+
+	update(data: Uint8Array) {
+		this.hash.update(data);
+	}
+
+	digest() {
+		return this.hash.digest("hex");
+	}
+}
+
+class Crc32Hasher implements IntegrityHasher {
+	private crc = 0xffffffff;
+
+	update(data: Uint8Array) {
+		for (let i = 0; i < data.length; i++) {
+			this.crc = CRC32_TABLE[(this.crc ^ data[i]) & 0xff] ^ (this.crc >>> 8);
+		}
+	}
+
+	digest() {
+		return ((this.crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, "0");
+	}
+}
+
+export function createHasher(algorithm: IntegrityAlgorithm): IntegrityHasher {
+	return algorithm === "crc32" ? new Crc32Hasher() : new Sha256Hasher();
+}
+
+export function digest(algorithm: IntegrityAlgorithm, data: Uint8Array) {
+	const hasher = createHasher(algorithm);
+
+	hasher.update(data);
+
+	return hasher.digest();
+}
+
+export function hashesMatch(expected: string, actual: string) {
+	return expected.toLowerCase() === actual.toLowerCase();
+}
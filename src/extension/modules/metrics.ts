@@ -0,0 +1,76 @@
+import { ActionMetrics, ConnectionEvent, RelayMetricsSnapshot } from "../types";
+
+const MAX_LATENCY_SAMPLES = 60;
+const MAX_CONNECTION_EVENTS = 50;
+
+export class RelayMetrics {
+	private latency: { time: number; rtt: number }[] = [];
+	private bytesSent = 0;
+	private bytesReceived = 0;
+	private actions = new Map<string, ActionMetrics>();
+	private failed = 0;
+	private timedOut = 0;
+	private connectionEvents: ConnectionEvent[] = [];
+
+	recordLatency(rtt: number) {
+		this.latency.push({ time: Date.now(), rtt });
+
+		if (this.latency.length > MAX_LATENCY_SAMPLES) {
+			this.latency.shift();
+		}
+	}
+
+	recordSent(bytes: number) {
+		this.bytesSent += bytes;
+	}
+
+	recordReceived(bytes: number) {
+		this.bytesReceived += bytes;
+	}
+
+	recordRPC(action: string, duration: number, errorCode?: string) {
+		let metrics = this.actions.get(action);
+
+		if (!metrics) {
+			metrics = { count: 0, failures: 0, timeouts: 0, totalTime: 0, maxTime: 0, lastTime: 0 };
+			this.actions.set(action, metrics);
+		}
+
+		metrics.count++;
+		metrics.totalTime += duration;
+		metrics.maxTime = Math.max(metrics.maxTime, duration);
+		metrics.lastTime = duration;
+
+		if (errorCode === "timeout") {
+			metrics.timeouts++;
+			this.timedOut++;
+		} else if (errorCode) {
+			metrics.failures++;
+			this.failed++;
+		}
+	}
+
+	recordConnectionEvent(kind: ConnectionEvent["kind"], detail?: string) {
+		this.connectionEvents.push({ time: Date.now(), kind, detail });
+
+		if (this.connectionEvents.length > MAX_CONNECTION_EVENTS) {
+			this.connectionEvents.shift();
+		}
+	}
+
+	currentLatency() {
+		return this.latency.length > 0 ? this.latency[this.latency.length - 1].rtt : undefined;
+	}
+
+	snapshot(): RelayMetricsSnapshot {
+		return {
+			latency: [...this.latency],
+			bytesSent: this.bytesSent,
+			bytesReceived: this.bytesReceived,
+			actions: Object.fromEntries([...this.actions].map(([action, metrics]) => [action, { ...metrics }])),
+			failed: this.failed,
+			timedOut: this.timedOut,
+			connectionEvents: [...this.connectionEvents]
+		};
+	}
+}
@@ -0,0 +1,84 @@
+import { RelayClientHelloMessage, RelayServerUpdateMessage, ServerCapabilities } from "../types";
+
+export const PROTOCOL_VERSION = 2;
+export const MIN_SERVER_PROTOCOL_VERSION = 1;
+
+export const CLIENT_FEATURES = [
+	"FS.Stat",
+	"FS.ListFiles",
+	"FS.Read",
+	"FS.Write",
+	"FS.WriteAtomic",
+	"FS.Truncate",
+	"FS.Copy",
+	"FS.Mkdir",
+	"FS.Delete",
+	"FS.Rename",
+	"FS.Search",
+	"FS.Watch",
+	"FS.Unwatch",
+	"rpc_cancel",
+	"stream_flow_control",
+	"session_resume",
+	"read_range"
+];
+
+const LEGACY_FEATURES = [
+	"FS.Stat",
+	"FS.ListFiles",
+	"FS.Read",
+	"FS.Write",
+	"FS.Truncate",
+	"FS.Copy",
+	"FS.Mkdir",
+	"FS.Delete",
+	"FS.Rename",
+	"FS.Search"
+];
+
+export class ProtocolError extends Error { }
+
+// Everything both sides negotiated, sealed by the server so a relay cannot strip features or checks
+export function handshakeTranscript(hello: RelayClientHelloMessage, update: RelayServerUpdateMessage) {
+	return Buffer.from(JSON.stringify([
+		hello.ciphers ?? null,
+		hello.cipherSalt ?? null,
+		hello.frameFormats ?? null,
+		hello.protocolVersion ?? null,
+		hello.features ?? null,
+		hello.compression ?? null,
+		hello.compressionThreshold ?? null,
+		hello.streamWindow ?? null,
+		hello.integrity ?? null,
+		update.serverName,
+		update.cipher ?? null,
+		update.frameFormat ?? null,
+		update.protocolVersion ?? null,
+		update.minProtocolVersion ?? null,
+		update.capabilities ?? null,
+		update.limits ?? null,
+		update.compression ?? null,
+		update.compressionThreshold ?? null,
+		update.integrity ?? null,
+		update.sessionToken ?? null,
+		!!update.resumed
+	]), "utf8");
+}
+
+export function negotiateCapabilities(msg: RelayServerUpdateMessage): ServerCapabilities {
+	const protocolVersion = msg.protocolVersion ?? 1;
+
+	if (protocolVersion < MIN_SERVER_PROTOCOL_VERSION) {
+		throw new ProtocolError(`The server runs protocol version ${protocolVersion}, but at least version ${MIN_SERVER_PROTOCOL_VERSION} is required. Update gmsv_remote on the server.`);
+	}
+
+	if (msg.minProtocolVersion !== undefined && msg.minProtocolVersion > PROTOCOL_VERSION) {
+		throw new ProtocolError(`The server requires protocol version ${msg.minProtocolVersion}, but this extension only supports version ${PROTOCOL_VERSION}. Update the GMod Remote extension.`);
+	}
+
+	return {
+		protocolVersion: Math.min(protocolVersion, PROTOCOL_VERSION),
+		features: new Set(msg.capabilities ?? LEGACY_FEATURES),
+		limits: msg.limits ?? {}
+	};
+}
@@ -0,0 +1,78 @@
+import * as vscode from "vscode";
+import http from "http";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { SocksProxyAgent } from "socks-proxy-agent";
+
+export const DIRECT_PROXY = "direct";
+
+const HTTP_PROXY_PROTOCOLS = ["http:", "https:"];
+const SOCKS_PROXY_PROTOCOLS = ["socks:", "socks4:", "socks4a:", "socks5:", "socks5h:"];
+
+export class ProxyError extends Error { }
+
+function environmentProxy(target: URL) {
+	const env = process.env;
+	const secure = target.protocol === "wss:" || target.protocol === "https:";
+
+	return (secure ? env.HTTPS_PROXY || env.https_proxy : env.HTTP_PROXY || env.http_proxy) || env.ALL_PROXY || env.all_proxy || null;
+}
+
+function bypassesProxy(target: URL) {
+	const configured = vscode.workspace.getConfiguration("http").get<string[]>("noProxy", []);
+	const env = (process.env.NO_PROXY || process.env.no_proxy || "").split(",");
+	const host = target.hostname.toLowerCase();
+
+	return [...configured, ...env].map((entry) => entry.trim().toLowerCase()).filter(Boolean).some((entry) => {
+		if (entry === "*") {
+			return true;
+		}
+
+		const domain = entry.replace(/^\*?\./, "").replace(/:\d+$/, "");
+
+		return host === domain || host.endsWith("." + domain);
+	});
+}
+
+export function proxyFor(target: string, override?: string | null) {
+	if (override) {
+		return override === DIRECT_PROXY ? null : override;
+	}
+
+	const url = new URL(target);
+
+	if (bypassesProxy(url)) {
+		return null;
+	}
+
+	return vscode.workspace.getConfiguration("http").get<string>("proxy", "") || environmentProxy(url);
+}
+
+export function createProxyAgent(proxy: string, strictSSL = true): http.Agent {
+	let url: URL;
+
+	try {
+		url = new URL(proxy);
+	} catch {
+		throw new ProxyError(`Invalid proxy URL: ${proxy}`);
+	}
+
+	if (HTTP_PROXY_PROTOCOLS.includes(url.protocol)) {
+		return new HttpsProxyAgent(url, { rejectUnauthorized: strictSSL });
+	}
+
+	if (SOCKS_PROXY_PROTOCOLS.includes(url.protocol)) {
+		return new SocksProxyAgent(url);
+	}
+
+	throw new ProxyError(`Unsupported proxy protocol: ${url.protocol.replace(/:$/, "")}`);
+}
+
+export function proxyAgentFor(target: string, override?: string | null) {
+	const proxy = proxyFor(target, override);
+
+	if (!proxy) {
+		return undefined;
+	}
+
+	return createProxyAgent(proxy, vscode.workspace.getConfiguration("http").get<boolean>("proxyStrictSSL", true));
+}
@@ -0,0 +1,33 @@
+import * as vscode from "vscode";
+import { ReconnectOptions } from "../types";
+
+export class ReconnectPolicy {
+	constructor(private options: ReconnectOptions) { }
+
+	static fromConfiguration() {
+		const config = vscode.workspace.getConfiguration("gmodRemote.reconnect");
+
+		return new ReconnectPolicy({
+			initialDelay: config.get<number>("initialDelay", 1500),
+			maxDelay: config.get<number>("maxDelay", 60000),
+			multiplier: config.get<number>("multiplier", 2),
+			jitter: config.get<number>("jitter", 0.2),
+			maxAttempts: config.get<number>("maxAttempts", 10)
+		});
+	}
+
+	maxAttempts() {
+		return this.options.maxAttempts;
+	}
+
+	canRetry(attempt: number) {
+		return this.options.maxAttempts <= 0 || attempt <= this.options.maxAttempts;
+	}
+
+	delay(attempt: number) {
+		const base = Math.min(this.options.initialDelay * Math.pow(this.options.multiplier, attempt - 1), this.options.maxDelay);
+		const jitter = base * this.options.jitter * (Math.random() * 2 - 1);
+
+		return Math.max(0, Math.round(base + jitter));
+	}
+}
@@ -1,36 +1,106 @@
 import * as vscode from "vscode";
 import WebSocket from "ws";
+import crypto from "crypto";
+import http from "http";
 import { EventEmitter } from "events";
-import { xorBuffer } from "./xor";
-import { RelayMessage, RelayRPCRequest, RelayRPCResponses } from "../types";
+import { associatedData, AUTHENTICATED_CIPHERS, createCipher, PayloadCipher, SUPPORTED_CIPHERS } from "./cipher";
+import { PayloadCodec, SUPPORTED_COMPRESSION } from "./compression";
+import { decodeFrame, frameHeader } from "./frame";
+import { createHasher, hashesMatch, SUPPORTED_INTEGRITY } from "./integrity";
+import { RelayMetrics } from "./metrics";
+import { ReconnectPolicy } from "./reconnect";
+import { proxyAgentFor } from "./proxy";
+import { CLIENT_FEATURES, handshakeTranscript, negotiateCapabilities, PROTOCOL_VERSION } from "./protocol";
+import { isCancelled, onCancelled } from "./cancellation";
+import { validateFileChanges, validateResponse } from "./validation";
+import { IntegrityAlgorithm, PendingStream, QueuedRPC, QueueOptions, RelayClientHelloMessage, RelayFrameFormat, RelayMessage, RelayRPCAction, RelayRPCOptions, RelayRPCRequest, RelayRPCRequestFor, RelayRPCResponseFor, RelayRPCResponses, RelayServerUpdateMessage, RelaySessionResume, RemoteFileChange, ServerCapabilities, StreamSummary, TraceDirection, TraceMessage } from "../types";
 import os from "os";
 
-export function encode(data: RelayRPCRequest, encryptionKey: string | null): string {
-	const jsonBuf = Buffer.from(JSON.stringify(data), "utf8");
+export class RelayPayloadError extends Error {
+	constructor(public code: "decrypt_failed" | "invalid_response", message: string) {
+		super(message);
+	}
+}
+
+export function encode(data: RelayRPCRequest, cipher: PayloadCipher | null, codec: PayloadCodec | null = null, aad?: Buffer): string {
+	let jsonBuf: Buffer = Buffer.from(JSON.stringify(data), "utf8");
 
-	if (!encryptionKey || encryptionKey.length === 0) {
+	if (codec) {
+		jsonBuf = codec.pack(jsonBuf);
+	}
+
+	if (!cipher) {
 		return jsonBuf.toString("base64");
 	}
 
-	const encrypted = xorBuffer(jsonBuf, encryptionKey);
-	return encrypted.toString("base64");
+	return cipher.seal(jsonBuf, aad).toString("base64");
+}
+
+function confirmHandshake(cipher: PayloadCipher, hello: RelayClientHelloMessage, update: RelayServerUpdateMessage) {
+	if (!update.confirmation) {
+		return false;
+	}
+
+	try {
+		cipher.open(Buffer.from(update.confirmation, "base64"), handshakeTranscript(hello, update));
+		return true;
+	} catch {
+		return false;
+	}
 }
 
 export function decode(
 	data: string | Buffer,
-	encryptionKey: string | null,
-	isBinary = false
+	cipher: PayloadCipher | null,
+	isBinary = false,
+	codec: PayloadCodec | null = null,
+	aad?: Buffer
 ): RelayRPCResponses | Buffer<ArrayBufferLike> {
 	const raw = isBinary
 		? Buffer.isBuffer(data) ? data : Buffer.from(data)
 		: Buffer.from(data as string, "base64");
 
-	if (!encryptionKey || encryptionKey.length === 0) {
-		return isBinary ? raw : JSON.parse(raw.toString("utf8"));
+	let opened: Buffer;
+
+	try {
+		opened = cipher ? cipher.open(raw, aad) : raw;
+	} catch (err) {
+		throw new RelayPayloadError("decrypt_failed", err instanceof Error ? err.message : String(err));
+	}
+
+	if (codec) {
+		try {
+			opened = codec.unpack(opened);
+		} catch (err) {
+			throw new RelayPayloadError("invalid_response", `Failed to decompress server payload: ${err instanceof Error ? err.message : String(err)}`);
+		}
+	}
+
+	if (isBinary) {
+		return opened;
 	}
 
-	const decrypted = xorBuffer(raw, encryptionKey);
-	return isBinary ? decrypted : JSON.parse(decrypted.toString("utf8"));
+	try {
+		return JSON.parse(opened.toString("utf8"));
+	} catch {
+		throw new RelayPayloadError("invalid_response", "Server response is not valid JSON, check the encryption key");
+	}
+}
+
+const DEFAULT_RPC_TIMEOUT = 15000;
+const DEFAULT_STREAM_WINDOW = 16;
+const QUEUEABLE_ACTIONS = new Set<RelayRPCAction>(["FS.Stat", "FS.ListFiles", "FS.Read", "FS.Write", "FS.WriteAtomic", "FS.Truncate"]);
+
+function rawLength(data: WebSocket.RawData) {
+	if (Array.isArray(data)) {
+		return data.reduce((total, part) => total + part.length, 0);
+	}
+
+	return Buffer.isBuffer(data) ? data.length : data.byteLength;
+}
+
+function errorCodeFor(err: unknown) {
+	return err instanceof RelayPayloadError ? err.code : "invalid_response";
 }
 
 function parseMessage(data: string): RelayMessage | null {
@@ -49,60 +119,137 @@ export class RelayClient extends EventEmitter {
 	private lastPong = Date.now();
 	private pending = new Map<number, (v: RelayRPCResponses) => void>();
 	private serverName = "";
-	private encryptionKey: string | null = null;
-	private pendingStreams = new Map<number, { onChunk: (chunk: Buffer<ArrayBufferLike>) => void, onEnd: () => void }>();
+	private cipher: PayloadCipher | null = null;
+	private codec: PayloadCodec | null = null;
+	private integrity: IntegrityAlgorithm | null = null;
+	private sessionToken: string | null = null;
+	private pendingStreams = new Map<number, PendingStream>();
+	private frameFormat: RelayFrameFormat = "legacy";
 	private dontAttemptToReconnect = false;
+	private connectArgs: [string, string, string, string | null, string | null] | null = null;
+	private reconnectAttempt = 0;
+	private reconnectTimer?: NodeJS.Timeout;
+	private reconnectPolicy = ReconnectPolicy.fromConfiguration();
+	private queue: QueuedRPC[] = [];
+	private serverCapabilities: ServerCapabilities | null = null;
+	private handshakeComplete = false;
+	private streamWindow = DEFAULT_STREAM_WINDOW;
+	private pingSentAt?: number;
+	readonly metrics = new RelayMetrics();
 
 	private pendingBinaryChunk:
 		| { requestId: number }
 		| null = null;
 
-	constructor() {
+	constructor(readonly serverKey: string) {
 		super();
+
+		this.on("connecting", () => this.metrics.recordConnectionEvent("connecting"));
+		this.on("connected", () => this.metrics.recordConnectionEvent("connected"));
+		this.on("disconnected", () => this.metrics.recordConnectionEvent("disconnected"));
+		this.on("reconnecting", (attempt: number, delay: number) => this.metrics.recordConnectionEvent("reconnecting", `attempt ${attempt}, retrying in ${delay} ms`));
+		this.on("gaveUp", (attempts: number) => this.metrics.recordConnectionEvent("gaveUp", `after ${attempts} attempts`));
 	}
 
-	async connect(url: string, address: string, password: string, encryptionKey: string | null) {
-		this.encryptionKey = encryptionKey;
+	async connect(url: string, address: string, password: string, encryptionKey: string | null, proxy: string | null = null) {
+		let agent: http.Agent | undefined;
+
+		try {
+			agent = proxyAgentFor(url, proxy);
+		} catch (err) {
+			vscode.window.showErrorMessage(err instanceof Error ? err.message : String(err));
+			throw err;
+		}
+
+		const cipherSalt = crypto.randomBytes(16);
+		const wantsEncryption = !!encryptionKey && encryptionKey.length > 0;
+		const requireAuthenticated = vscode.workspace.getConfiguration("gmodRemote").get<boolean>("requireAuthenticatedEncryption", true);
+		const offeredCiphers = requireAuthenticated ? AUTHENTICATED_CIPHERS : SUPPORTED_CIPHERS;
+		const compression = this.compressionOptions();
+
+		this.streamWindow = Math.max(1, vscode.workspace.getConfiguration("gmodRemote").get<number>("streamWindow", DEFAULT_STREAM_WINDOW));
+
+		this.connectArgs = [url, address, password, encryptionKey, proxy];
+		this.dontAttemptToReconnect = false;
+		this.cipher = null;
+		this.codec = null;
+		this.integrity = null;
+		this.frameFormat = "legacy";
+		this.handshakeComplete = false;
+
+		// Requests queued while reconnecting are shaped by the last negotiated capabilities until server_update replaces them
+		if (this.reconnectAttempt === 0) {
+			this.serverCapabilities = null;
+		}
 
 		this.emit("connecting");
 
 		return new Promise<void>((resolve, reject) => {
 			let settled = false;
 			let fullyConnected = false;
+			let helloFailed = false;
+			let hello: RelayClientHelloMessage | null = null;
 
 			this.ws = new WebSocket(url, {
-				headers: { "Sec-WebSocket-Protocol": "gmsv_remote" }
+				headers: { "Sec-WebSocket-Protocol": "gmsv_remote" },
+				allowSynchronousEvents: false,
+				agent
 			});
 
 			this.ws.on("open", () => {
 				this.connected = true;
 				this.lastPong = Date.now();
 
-				this.send({
+				hello = {
 					type: "client_hello",
 					serverAddress: address,
 					serverPassword: password,
-					clientName: os.userInfo().username || "Unknown"
-				});
+					clientName: os.userInfo().username || "Unknown",
+					ciphers: wantsEncryption ? offeredCiphers : undefined,
+					cipherSalt: wantsEncryption ? cipherSalt.toString("base64") : undefined,
+					frameFormats: ["tagged", "legacy"],
+					protocolVersion: PROTOCOL_VERSION,
+					features: CLIENT_FEATURES,
+					compression: compression.enabled ? SUPPORTED_COMPRESSION : undefined,
+					compressionThreshold: compression.enabled ? compression.threshold : undefined,
+					streamWindow: this.streamWindow,
+					integrity: SUPPORTED_INTEGRITY,
+					resume: this.resumeRequest()
+				};
+
+				this.send(hello);
 
 				this.heartbeat = setInterval(() => {
 					if (Date.now() - this.lastPong > 30000) {
 						console.warn("Heartbeat requestTimeout, terminating");
 						this.ws.terminate();
 					} else {
-						try { this.ws.ping(); } catch { }
-
-						this.send({ type: "ping" });
+						this.sendPing();
 					}
 				}, 10000);
 			});
 
 			this.ws.on("pong", () => {
-				this.lastPong = Date.now();
+				this.receivePong();
 			});
 
 			this.ws.on("message", (d, isBinary) => {
+				this.metrics.recordReceived(rawLength(d));
+
 				if (isBinary) {
+					const raw = Buffer.isBuffer(d) ? d : Buffer.from(d as ArrayBuffer);
+
+					if (this.frameFormat === "tagged") {
+						const frame = decodeFrame(raw);
+
+						if (!frame) {
+							console.error("We received a binary frame that is too short to contain a header!");
+							return;
+						}
+
+						return this.receiveChunk(frame.requestId, frame.sequence, frame.payload);
+					}
+
 					if (!this.pendingBinaryChunk) {
 						console.error("We received a binary chunk but we don't have a pending binary chunk!");
 						return;
@@ -111,17 +258,7 @@ export class RelayClient extends EventEmitter {
 					const { requestId } = this.pendingBinaryChunk;
 					this.pendingBinaryChunk = null;
 
-					const handler = this.pendingStreams.get(requestId);
-
-					if (!handler) {
-						console.error("We received a binary chunk but we don't have a pending binary chunk handler!");
-						return;
-					}
-
-					const raw = Buffer.isBuffer(d) ? d : Buffer.from(d as ArrayBuffer);
-					const binaryChunkData = decode(raw, this.encryptionKey, true);
-
-					return handler.onChunk(binaryChunkData as Buffer<ArrayBufferLike>);
+					return this.receiveChunk(requestId, null, raw);
 				}
 
 				let msg: RelayMessage | null = parseMessage(d.toString());
@@ -130,32 +267,119 @@ export class RelayClient extends EventEmitter {
 					return;
 				}
 
+				if (msg.type !== "server_rpc_response" && msg.type !== "server_fs_change") {
+					this.trace("in", msg);
+				}
+
 				if (msg.type === "pong") {
-					this.lastPong = Date.now();
+					this.receivePong();
 					return;
 				}
 
 				if (msg.type === "client_hello_failure") {
-					vscode.window.showErrorMessage("Failed to connect to server. Ensure the server is running and the password is correct.");
+					if (msg.reason === "incompatible_version") {
+						vscode.window.showErrorMessage(`The server does not support protocol version ${PROTOCOL_VERSION}. Update gmsv_remote or the GMod Remote extension.`);
 
-					setTimeout(() => {
-						if (this.dontAttemptToReconnect || this.connected) {
-							return;
-						}
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					if (this.reconnectAttempt === 0) {
+						vscode.window.showErrorMessage("Failed to connect to server. Ensure the server is running and the password is correct.");
+					}
 
-						this.connect(url, address, password, encryptionKey);
-					}, 5000);
+					helloFailed = true;
+					this.ws.close();
 
 					return;
 				}
 
 				if (msg.type === "server_update") {
+					const cipherName = msg.cipher ?? (wantsEncryption ? "xor" : "none");
+
+					if ((!wantsEncryption && cipherName !== "none") || (wantsEncryption && !SUPPORTED_CIPHERS.includes(cipherName))) {
+						vscode.window.showErrorMessage(`Server selected an unsupported cipher (${cipherName}), disconnecting.`);
+
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					// Servers that omit the cipher only speak XOR, which a relay could otherwise force on us
+					if (wantsEncryption && !offeredCiphers.includes(cipherName)) {
+						vscode.window.showErrorMessage(`Server only supports ${cipherName} encryption, which is not authenticated, disconnecting. Update gmsv_remote or turn off gmodRemote.requireAuthenticatedEncryption.`);
+
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					let capabilities: ServerCapabilities;
+
+					try {
+						capabilities = negotiateCapabilities(msg);
+					} catch (err) {
+						vscode.window.showErrorMessage(err instanceof Error ? err.message : String(err));
+
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					const compressionName = msg.compression ?? "none";
+
+					if (compressionName !== "none" && (!compression.enabled || !SUPPORTED_COMPRESSION.includes(compressionName))) {
+						vscode.window.showErrorMessage(`Server selected an unsupported compression (${compressionName}), disconnecting.`);
+
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					if (msg.integrity && !SUPPORTED_INTEGRITY.includes(msg.integrity)) {
+						vscode.window.showErrorMessage(`Server selected an unsupported integrity check (${msg.integrity}), disconnecting.`);
+
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					const cipher = createCipher(cipherName, encryptionKey, cipherSalt);
+
+					if (AUTHENTICATED_CIPHERS.includes(cipher.name) && !confirmHandshake(cipher, hello!, msg)) {
+						vscode.window.showErrorMessage("The server could not confirm the connection settings, check the encryption key. Disconnecting.");
+
+						this.dontAttemptToReconnect = true;
+						this.ws.close();
+						return;
+					}
+
+					const resumed = !!this.sessionToken && !!msg.resumed;
+
+					if (this.sessionToken && !msg.resumed) {
+						console.warn("The server could not resume the previous session");
+						this.failSession("session_lost");
+					}
+
+					this.serverCapabilities = capabilities;
+					this.cipher = cipher;
+					this.integrity = msg.integrity ?? null;
+					this.sessionToken = msg.sessionToken ?? null;
+					this.codec = compressionName === "none" ? null : new PayloadCodec(compressionName, msg.compressionThreshold ?? compression.threshold);
+					this.frameFormat = msg.frameFormat ?? "legacy";
+
 					vscode.window.showInformationMessage("Connected to server");
 
 					this.serverName = msg.serverName;
+					this.reconnectAttempt = 0;
+					this.handshakeComplete = true;
 					fullyConnected = true;
 
-					this.emit("connected");
+					this.emit("connected", resumed);
+					this.resumeStreams();
+					this.flushQueue();
+					this.sendPing();
 
 					if (!settled) {
 						settled = true;
@@ -175,28 +399,52 @@ export class RelayClient extends EventEmitter {
 					const handler = this.pendingStreams.get(msg.requestId);
 
 					if (handler) {
-						handler.onEnd();
-						this.pendingStreams.delete(msg.requestId);
 						this.pendingBinaryChunk = null;
+
+						const summary = { chunks: msg.chunks, length: msg.length, hash: msg.hash };
+
+						if (handler.paused) {
+							handler.endedWith = summary;
+						} else {
+							this.finishStream(msg.requestId, summary);
+						}
 					}
 
 					return;
 				}
 
+				if (msg.type === "server_fs_change") {
+					this.receiveFileChanges(msg.watchId, msg.payload);
+					return;
+				}
+
 				if (msg.type === "server_rpc_response") {
 					const cb = this.pending.get(msg.requestId);
 
-					if (cb) {
-						const obj = decode(msg.response, this.encryptionKey);
+					if (!cb) {
+						this.trace("in", msg);
+					} else {
+						let obj: RelayRPCResponses;
+
+						try {
+							obj = decode(msg.response, this.cipher, false, this.codec, associatedData(msg.type, msg.requestId)) as RelayRPCResponses;
+						} catch (err) {
+							console.error("Failed to decode RPC response:", err);
+
+							obj = { success: false, error_code: errorCodeFor(err), requestId: msg.requestId };
+						}
+
+						this.trace("in", { ...msg, response: obj });
 
 						this.pending.delete(msg.requestId);
-						cb(obj as RelayRPCResponses);
+						cb(obj);
 					}
 				}
 			});
 
 			this.ws.on("close", () => {
 				this.connected = false;
+				this.handshakeComplete = false;
 
 				this.emit("disconnected");
 
@@ -204,27 +452,29 @@ export class RelayClient extends EventEmitter {
 					clearInterval(this.heartbeat);
 				}
 
-				for (const [requestId, cb] of this.pending) {
-					cb({ success: false, error_code: "connection_lost", requestId });
-				}
-
-				this.pending.clear();
+				this.pendingBinaryChunk = null;
 
 				if (!settled) {
 					settled = true;
 					reject(new Error("Socket closed during connect"));
 				}
 
-				if (!this.dontAttemptToReconnect && fullyConnected) {
-					vscode.window.showErrorMessage("Connection lost, reconnecting...");
+				if (!this.dontAttemptToReconnect && (fullyConnected || helloFailed || this.reconnectAttempt > 0)) {
+					if (fullyConnected) {
+						vscode.window.showErrorMessage("Connection lost, reconnecting...");
+					}
 
-					setTimeout(() => {
-						if (this.dontAttemptToReconnect || this.connected) {
-							return;
-						}
+					if (this.sessionToken) {
+						this.suspendSession();
+					} else {
+						this.failSession("connection_lost");
+					}
 
-						this.connect(url, address, password, encryptionKey);
-					}, 1500);
+					this.scheduleReconnect();
+				} else {
+					this.reconnectAttempt = 0;
+					this.failQueue("connection_lost");
+					this.failSession("connection_lost");
 				}
 
 				this.dontAttemptToReconnect = false;
@@ -239,59 +489,579 @@ export class RelayClient extends EventEmitter {
 		});
 	}
 
+	private receiveChunk(requestId: number, sequence: number | null, raw: Buffer) {
+		const handler = this.pendingStreams.get(requestId);
+
+		if (!handler) {
+			console.error(`We received an orphaned binary chunk for stream ${requestId} (sequence ${sequence ?? "unknown"})!`);
+
+			this.trace("in", { type: "binary", requestId, sequence, error: "orphaned" });
+			return;
+		}
+
+		if (sequence !== null && sequence !== handler.nextSequence) {
+			console.error(`We received chunk ${sequence} for stream ${requestId} but expected chunk ${handler.nextSequence}!`);
+
+			this.trace("in", { type: "binary", requestId, sequence, error: "stream_out_of_order" });
+
+			this.takeStream(requestId);
+			return handler.onError?.("stream_out_of_order");
+		}
+
+		handler.nextSequence++;
+
+		if (!handler.paused) {
+			handler.touch();
+		}
+
+		let binaryChunkData: Buffer<ArrayBufferLike>;
+
+		try {
+			// Tagged frames seal their header with the payload so it cannot be rewritten to another stream
+			binaryChunkData = decode(raw, this.cipher, true, this.codec, sequence === null ? undefined : frameHeader(requestId, sequence)) as Buffer<ArrayBufferLike>;
+		} catch (err) {
+			console.error("Failed to decode binary chunk:", err);
+
+			this.trace("in", { type: "binary", requestId, sequence, error: errorCodeFor(err) });
+			this.takeStream(requestId);
+			return handler.onError?.(errorCodeFor(err));
+		}
+
+		this.trace("in", { type: "binary", requestId, sequence, data: binaryChunkData.toString("base64") });
+
+		handler.received += binaryChunkData.length;
+		handler.hasher?.update(binaryChunkData);
+
+		if (handler.paused) {
+			handler.buffered.push(binaryChunkData);
+			return;
+		}
+
+		this.deliverChunk(requestId, handler, binaryChunkData);
+	}
+
+	private receiveFileChanges(watchId: string, payload: string) {
+		let decoded: unknown;
+
+		try {
+			decoded = decode(payload, this.cipher, false, this.codec, associatedData("server_fs_change", watchId));
+		} catch (err) {
+			console.error("Failed to decode file changes:", err);
+			return;
+		}
+
+		const error = validateFileChanges(decoded);
+
+		if (error) {
+			console.error(`Invalid file changes: ${error}`);
+			return;
+		}
+
+		const { changes } = decoded as { changes: RemoteFileChange[] };
+
+		this.trace("in", { type: "server_fs_change", watchId, payload: JSON.stringify(decoded) });
+		this.emit("fileChanges", watchId, changes);
+	}
+
+	private deliverChunk(requestId: number, handler: PendingStream, chunk: Buffer<ArrayBufferLike>) {
+		handler.onChunk(chunk);
+		handler.consumed++;
+
+		if (this.supports("stream_flow_control") && handler.consumed - handler.acked >= Math.ceil(this.streamWindow / 2)) {
+			handler.acked = handler.consumed;
+			this.send({ type: "client_rpc_stream_ack", requestId, consumed: handler.consumed });
+		}
+	}
+
+	private finishStream(requestId: number, summary: StreamSummary) {
+		const handler = this.takeStream(requestId);
+
+		if (!handler) {
+			return;
+		}
+
+		if (summary.chunks !== undefined && summary.chunks !== handler.nextSequence) {
+			console.error(`Stream ${requestId} ended after ${handler.nextSequence} of ${summary.chunks} chunks`);
+			return handler.onError?.("stream_incomplete");
+		}
+
+		if (summary.length !== undefined && summary.length !== handler.received) {
+			console.error(`Stream ${requestId} delivered ${handler.received} of ${summary.length} bytes`);
+			return handler.onError?.("integrity_mismatch");
+		}
+
+		if (summary.hash && handler.hasher && !hashesMatch(summary.hash, handler.hasher.digest())) {
+			console.error(`Stream ${requestId} failed its ${this.integrity} check`);
+			return handler.onError?.("integrity_mismatch");
+		}
+
+		handler.onEnd();
+	}
+
+	pauseStream(requestId: number) {
+		const handler = this.pendingStreams.get(requestId);
+
+		if (!handler || handler.paused) {
+			return;
+		}
+
+		handler.paused = true;
+		handler.suspend();
+	}
+
+	resumeStream(requestId: number) {
+		const handler = this.pendingStreams.get(requestId);
+
+		if (!handler || !handler.paused) {
+			return;
+		}
+
+		handler.paused = false;
+
+		while (handler.buffered.length > 0 && this.pendingStreams.get(requestId) === handler) {
+			this.deliverChunk(requestId, handler, handler.buffered.shift()!);
+		}
+
+		if (this.pendingStreams.get(requestId) !== handler) {
+			return;
+		}
+
+		if (handler.endedWith) {
+			this.finishStream(requestId, handler.endedWith);
+		} else {
+			handler.touch();
+		}
+	}
+
+	private sendPing() {
+		this.pingSentAt = Date.now();
+
+		try { this.ws.ping(); } catch { }
+
+		this.send({ type: "ping" });
+	}
+
+	private receivePong() {
+		this.lastPong = Date.now();
+
+		if (this.pingSentAt === undefined) {
+			return;
+		}
+
+		const rtt = this.lastPong - this.pingSentAt;
+		this.pingSentAt = undefined;
+
+		this.metrics.recordLatency(rtt);
+		this.emit("latency", rtt);
+	}
+
 	send(obj: RelayMessage) {
 		if (!this.connected) {
 			return;
 		}
 
-		this.ws.send(JSON.stringify(obj));
+		const serialized = JSON.stringify(obj);
+
+		this.trace("out", obj);
+		this.metrics.recordSent(Buffer.byteLength(serialized));
+		this.ws.send(serialized);
 	}
 
-	rpc(action: string, payload: RelayRPCRequest): Promise<RelayRPCResponses> {
-		if (!this.connected) {
+	private trace(direction: TraceDirection, message: TraceMessage) {
+		if (this.listenerCount("trace") > 0) {
+			this.emit("trace", direction, message);
+		}
+	}
+
+	rpc<A extends RelayRPCAction>(action: A, payload: RelayRPCRequestFor<A>, options: RelayRPCOptions = {}): Promise<RelayRPCResponseFor<A>> {
+		// The socket opens before the handshake picks a cipher, so wait for server_update
+		if (!this.isConnected()) {
+			if (QUEUEABLE_ACTIONS.has(action) && this.isQueueing()) {
+				return this.enqueue(action, payload, options);
+			}
+
 			return Promise.reject(new Error("Not connected"));
 		}
 
 		const currentRequestId = this.requestId++;
 
-		return new Promise((resolve, reject) => {
-			const requestTimeout = setTimeout(() => {
-				this.pending.delete(currentRequestId);
-				reject({ success: false, error_code: "connection_lost", requestId: currentRequestId });
-			}, 15000);
+		if (options.signal && isCancelled(options.signal)) {
+			return Promise.resolve({ success: false, error_code: "cancelled", requestId: currentRequestId });
+		}
+
+		const message: RelayMessage = {
+			type: "client_rpc",
+			requestId: currentRequestId,
+			action,
+			payload: encode(payload, this.cipher, this.codec, associatedData("client_rpc", currentRequestId, action))
+		};
+
+		const serialized = JSON.stringify(message);
+		const maxFrameSize = this.serverCapabilities?.limits.maxFrameSize;
+
+		if (maxFrameSize && Buffer.byteLength(serialized) > maxFrameSize) {
+			return Promise.resolve({ success: false, error_code: "payload_too_large", requestId: currentRequestId });
+		}
+
+		const startedAt = Date.now();
+
+		return new Promise((resolve) => {
+			let unsubscribe = () => { };
 
-			this.pending.set(currentRequestId, (data: RelayRPCResponses) => {
+			const finish = (data: RelayRPCResponses) => {
 				clearTimeout(requestTimeout);
-				resolve({ ...data, requestId: currentRequestId });
-			});
+				unsubscribe();
+
+				this.pending.delete(currentRequestId);
+
+				const error = validateResponse(action, data);
+
+				this.metrics.recordRPC(action, Date.now() - startedAt, error ? "invalid_response" : data.success ? undefined : data.error_code || "unknown");
+
+				if (error) {
+					console.error(`Invalid ${action} response: ${error}`);
+
+					return resolve({
+						success: false,
+						error_code: "invalid_response",
+						error_message: `Invalid ${action} response: ${error}`,
+						requestId: currentRequestId
+					} as RelayRPCResponseFor<A>);
+				}
+
+				resolve({ ...data, requestId: currentRequestId } as RelayRPCResponseFor<A>);
+			};
+
+			const abort = (errorCode: "timeout" | "cancelled") => {
+				this.sendCancel(currentRequestId);
+				finish({ success: false, error_code: errorCode, requestId: currentRequestId });
+			};
+
+			const requestTimeout = setTimeout(() => abort("timeout"), options.timeout ?? DEFAULT_RPC_TIMEOUT);
+
+			if (options.signal) {
+				unsubscribe = onCancelled(options.signal, () => abort("cancelled"));
+			}
+
+			this.pending.set(currentRequestId, finish);
+			this.trace("out", { type: "client_rpc", requestId: currentRequestId, action, payload });
+			this.metrics.recordSent(Buffer.byteLength(serialized));
+			this.ws.send(serialized);
+		});
+	}
+
+	private sendCancel(requestId: number) {
+		if (this.supports("rpc_cancel")) {
+			this.send({ type: "client_rpc_cancel", requestId });
+		}
+	}
+
+	capabilities() {
+		return this.serverCapabilities;
+	}
 
-			this.send({
-				type: "client_rpc",
-				requestId: currentRequestId,
+	integrityAlgorithm() {
+		return this.integrity;
+	}
+
+	supports(feature: string) {
+		return !!this.serverCapabilities?.features.has(feature);
+	}
+
+	private compressionOptions() {
+		const config = vscode.workspace.getConfiguration("gmodRemote.compression");
+
+		return {
+			enabled: config.get<boolean>("enabled", true),
+			threshold: config.get<number>("threshold", 1024)
+		};
+	}
+
+	private queueOptions(): QueueOptions {
+		const config = vscode.workspace.getConfiguration("gmodRemote.queue");
+
+		return {
+			enabled: config.get<boolean>("enabled", true),
+			maxSize: config.get<number>("maxSize", 50),
+			maxAge: config.get<number>("maxAge", 30000)
+		};
+	}
+
+	isQueueing() {
+		return this.reconnectAttempt > 0 && this.queueOptions().enabled;
+	}
+
+	private enqueue<A extends RelayRPCAction>(action: A, payload: RelayRPCRequestFor<A>, options: RelayRPCOptions): Promise<RelayRPCResponseFor<A>> {
+		const { maxSize, maxAge } = this.queueOptions();
+
+		if (this.queue.length >= maxSize) {
+			return Promise.resolve({ success: false, error_code: "queue_full", requestId: 0 });
+		}
+
+		if (options.signal && isCancelled(options.signal)) {
+			return Promise.resolve({ success: false, error_code: "cancelled", requestId: 0 });
+		}
+
+		return new Promise((resolve) => {
+			let unsubscribe = () => { };
+
+			const entry: QueuedRPC = {
 				action,
-				payload: encode(payload, this.encryptionKey)
+				payload,
+				options,
+				resolve: resolve as (response: RelayRPCResponses) => void,
+				dispose: () => {
+					clearTimeout(expiry);
+					unsubscribe();
+				}
+			};
+
+			const drop = (errorCode: string) => {
+				const index = this.queue.indexOf(entry);
+
+				if (index !== -1) {
+					this.queue.splice(index, 1);
+					entry.dispose();
+					resolve({ success: false, error_code: errorCode, requestId: 0 } as RelayRPCResponseFor<A>);
+				}
+			};
+
+			const expiry = setTimeout(() => drop("connection_lost"), maxAge);
+
+			if (options.signal) {
+				unsubscribe = onCancelled(options.signal, () => drop("cancelled"));
+			}
+
+			this.queue.push(entry);
+		});
+	}
+
+	private flushQueue() {
+		const queued = this.queue;
+		this.queue = [];
+
+		for (const entry of queued) {
+			entry.dispose();
+			this.rpc(entry.action, entry.payload, entry.options).then(entry.resolve, () => {
+				entry.resolve({ success: false, error_code: "connection_lost", requestId: 0 });
 			});
+		}
+	}
+
+	private failQueue(errorCode: string) {
+		const queued = this.queue;
+		this.queue = [];
+
+		for (const entry of queued) {
+			entry.dispose();
+			entry.resolve({ success: false, error_code: errorCode, requestId: 0 });
+		}
+	}
+
+	private resumeRequest(): RelaySessionResume | undefined {
+		if (!this.sessionToken) {
+			return undefined;
+		}
+
+		return {
+			token: this.sessionToken,
+			requests: [...this.pending.keys()],
+			streams: [...this.pendingStreams].map(([requestId, handler]) => ({ requestId, nextSequence: handler.nextSequence }))
+		};
+	}
+
+	private suspendSession() {
+		for (const handler of this.pendingStreams.values()) {
+			handler.suspend();
+		}
+	}
+
+	private resumeStreams() {
+		for (const handler of this.pendingStreams.values()) {
+			if (!handler.paused) {
+				handler.touch();
+			}
+		}
+	}
+
+	private failSession(errorCode: string) {
+		const pending = [...this.pending];
+		const streams = [...this.pendingStreams.keys()];
+
+		this.sessionToken = null;
+		this.pending.clear();
+
+		for (const [requestId, cb] of pending) {
+			cb({ success: false, error_code: "connection_lost", requestId });
+		}
+
+		for (const requestId of streams) {
+			this.takeStream(requestId)?.onError?.(errorCode);
+		}
+	}
+
+	stream(requestId: number, onChunk: (chunk: Buffer) => void, onEnd: () => void, onError?: (errorCode: string) => void, options: RelayRPCOptions = {}) {
+		let idleTimeout: NodeJS.Timeout | undefined;
+		let unsubscribe = () => { };
+
+		const abort = (errorCode: "timeout" | "cancelled") => {
+			if (this.takeStream(requestId)) {
+				this.sendCancel(requestId);
+				onError?.(errorCode);
+			}
+		};
+
+		const armTimeout = () => {
+			if (options.timeout !== undefined) {
+				clearTimeout(idleTimeout);
+				idleTimeout = setTimeout(() => abort("timeout"), options.timeout);
+			}
+		};
+
+		this.pendingStreams.set(requestId, {
+			onChunk,
+			onEnd,
+			onError,
+			nextSequence: 0,
+			consumed: 0,
+			acked: 0,
+			paused: false,
+			buffered: [],
+			received: 0,
+			hasher: this.integrity ? createHasher(this.integrity) : null,
+			touch: armTimeout,
+			suspend: () => clearTimeout(idleTimeout),
+			dispose: () => {
+				clearTimeout(idleTimeout);
+				unsubscribe();
+			}
 		});
+
+		armTimeout();
+
+		if (options.signal) {
+			if (isCancelled(options.signal)) {
+				return abort("cancelled");
+			}
+
+			unsubscribe = onCancelled(options.signal, () => abort("cancelled"));
+		}
 	}
 
-	stream(requestId: number, onChunk: (chunk: Buffer) => void, onEnd: () => void) {
-		this.pendingStreams.set(requestId, { onChunk, onEnd });
+	streamFillBuffer(requestId: number, buffer: Buffer<ArrayBufferLike>[] | Uint8Array[], options: RelayRPCOptions = {}): Promise<void> {
+		return new Promise((resolve, reject) => this.stream(requestId, (chunk) => buffer.push(chunk), () => resolve(), (errorCode) => {
+			reject({ success: false, error_code: errorCode, requestId });
+		}, options));
 	}
 
-	streamFillBuffer(requestId: number, buffer: Buffer<ArrayBufferLike>[] | Uint8Array[]): Promise<void> {
-		return new Promise((resolve) => this.stream(requestId, (chunk) => buffer.push(chunk), () => resolve()));
+	private takeStream(requestId: number) {
+		const handler = this.pendingStreams.get(requestId);
+
+		if (handler) {
+			this.pendingStreams.delete(requestId);
+			handler.dispose();
+		}
+
+		return handler;
 	}
 
 	stopStream(requestId: number) {
-		this.pendingStreams.delete(requestId);
+		if (this.takeStream(requestId)) {
+			this.sendCancel(requestId);
+		}
 	}
 
 	name() {
-		return this.serverName;
+		return this.serverName || this.serverKey;
+	}
+
+	isConnected() {
+		return this.connected && this.handshakeComplete;
+	}
+
+	private scheduleReconnect() {
+		if (this.reconnectTimer) {
+			return;
+		}
+
+		if (this.reconnectAttempt === 0) {
+			this.reconnectPolicy = ReconnectPolicy.fromConfiguration();
+		}
+
+		const attempt = ++this.reconnectAttempt;
+
+		if (!this.reconnectPolicy.canRetry(attempt)) {
+			this.reconnectAttempt = 0;
+			this.failQueue("connection_lost");
+			this.failSession("connection_lost");
+			this.emit("gaveUp", attempt - 1);
+
+			vscode.window.showErrorMessage(`Gave up reconnecting to server after ${attempt - 1} attempts.`);
+			return;
+		}
+
+		const delay = this.reconnectPolicy.delay(attempt);
+
+		this.emit("reconnecting", attempt, delay);
+
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.reconnect();
+		}, delay);
+	}
+
+	private reconnect() {
+		if (this.dontAttemptToReconnect || this.connected || !this.connectArgs) {
+			return;
+		}
+
+		this.connect(...this.connectArgs).catch(() => { });
+	}
+
+	retryNow() {
+		if (!this.reconnectTimer) {
+			return;
+		}
+
+		clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = undefined;
+		this.reconnect();
+	}
+
+	private cancelReconnect() {
+		if (!this.reconnectTimer) {
+			return false;
+		}
+
+		clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = undefined;
+		this.reconnectAttempt = 0;
+		this.failQueue("connection_lost");
+		this.failSession("connection_lost");
+
+		return true;
+	}
+
+	stopReconnecting() {
+		if (this.cancelReconnect()) {
+			this.emit("gaveUp", 0);
+		}
+	}
+
+	isReconnecting() {
+		return !!this.reconnectTimer;
+	}
+
+	maxReconnectAttempts() {
+		return this.reconnectPolicy.maxAttempts();
 	}
 
 	disconnect() {
+		if (this.cancelReconnect()) {
+			this.emit("disconnected");
+		}
+
 		this.dontAttemptToReconnect = true;
-		this.ws.close();
+		this.ws?.close();
 	}
 }
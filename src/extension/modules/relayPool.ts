@@ -0,0 +1,59 @@
+import * as vscode from "vscode";
+import { EventEmitter } from "events";
+import { RelayClient } from "./relay";
+
+// Server names double as URI authorities, which VS Code may hand back lowercased
+function poolKey(serverName: string) {
+	return serverName.toLowerCase();
+}
+
+export class RelayPool extends EventEmitter {
+	private relays = new Map<string, RelayClient>();
+
+	get(serverName: string) {
+		return this.relays.get(poolKey(serverName));
+	}
+
+	getOrCreate(serverName: string) {
+		let relay = this.get(serverName);
+
+		if (!relay) {
+			relay = new RelayClient(serverName);
+			this.relays.set(poolKey(serverName), relay);
+			this.emit("added", relay);
+		}
+
+		return relay;
+	}
+
+	remove(serverName: string) {
+		const relay = this.get(serverName);
+
+		if (!relay) {
+			return;
+		}
+
+		this.relays.delete(poolKey(serverName));
+		this.emit("removed", relay);
+	}
+
+	forUri(uri: vscode.Uri) {
+		if (uri.authority) {
+			return this.get(uri.authority);
+		}
+
+		return this.relays.size === 1 ? this.all()[0] : undefined;
+	}
+
+	all() {
+		return [...this.relays.values()];
+	}
+
+	connected() {
+		return this.all().filter((relay) => relay.isConnected());
+	}
+
+	reconnecting() {
+		return this.all().filter((relay) => relay.isReconnecting());
+	}
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { matchesAny } from "./glob";
+import { SyncAction, SyncBaseline, SyncMode, SyncTree } from "../types";
+
+export function isSafeEntryName(name: string) {
+	return name !== "" && name !== "." && name !== ".." && !/[/\\]/.test(name);
+}
+
+export async function scanLocal(root: string, ignore: RegExp[]): Promise<SyncTree> {
+	const tree: SyncTree = new Map();
+
+	const walk = async (directory: string) => {
+		for (const entry of await fs.promises.readdir(path.join(root, directory), { withFileTypes: true })) {
+			const relative = directory ? `${directory}/${entry.name}` : entry.name;
+
+			if (matchesAny(ignore, relative)) {
+				continue;
+			}
+
+			if (entry.isDirectory()) {
+				await walk(relative);
+			}
+			else if (entry.isFile()) {
+				const stat = await fs.promises.stat(path.join(root, relative));
+
+				tree.set(relative, { size: stat.size, modified: Math.floor(stat.mtimeMs) });
+			}
+		}
+	};
+
+	await walk("");
+
+	return tree;
+}
+
+export function planSync(local: SyncTree, remote: SyncTree, mode: SyncMode, baseline: SyncBaseline = {}): SyncAction[] {
+	const actions: SyncAction[] = [];
+	const paths = [...new Set([...local.keys(), ...remote.keys()])].sort();
+
+	for (const filePath of paths) {
+		const localEntry = local.get(filePath);
+		const remoteEntry = remote.get(filePath);
+		const base = baseline[filePath];
+		const localChanged = !base || !localEntry || localEntry.modified !== base.local;
+		const remoteChanged = !base || !remoteEntry || remoteEntry.modified !== base.remote;
+
+		if (localEntry && remoteEntry) {
+			if (!localChanged && !remoteChanged) {
+				continue;
+			}
+
+			if (mode === "push") {
+				actions.push({ type: "upload", path: filePath });
+			}
+			else if (mode === "pull") {
+				actions.push({ type: "download", path: filePath });
+			}
+			else if (localChanged && remoteChanged) {
+				actions.push({ type: "conflict", path: filePath });
+			}
+			else {
+				actions.push({ type: localChanged ? "upload" : "download", path: filePath });
+			}
+		}
+		else if (localEntry) {
+			// Only a file we synced before can have been deleted on the other side, anything else was never synced
+			const deletedRemotely = !!base && (mode === "pull" || (mode === "two-way" && !localChanged));
+
+			if (deletedRemotely) {
+				actions.push({ type: "deleteLocal", path: filePath });
+			}
+			else if (mode !== "pull") {
+				actions.push({ type: "upload", path: filePath });
+			}
+		}
+		else if (remoteEntry) {
+			const deletedLocally = !!base && (mode === "push" || (mode === "two-way" && !remoteChanged));
+
+			if (deletedLocally) {
+				actions.push({ type: "deleteRemote", path: filePath });
+			}
+			else if (mode !== "push") {
+				actions.push({ type: "download", path: filePath });
+			}
+		}
+	}
+
+	return actions;
+}
+
+// Files on both sides that were never synced only need their contents compared when the sizes match
+export function unsyncedMatches(local: SyncTree, remote: SyncTree, baseline: SyncBaseline) {
+	return [...local].filter(([filePath, localEntry]) => !baseline[filePath] && remote.get(filePath)?.size === localEntry.size).map(([filePath]) => filePath);
+}
+
+export function nextBaseline(local: SyncTree, remote: SyncTree, previous: SyncBaseline, skipped: Set<string>): SyncBaseline {
+	const baseline: SyncBaseline = {};
+
+	for (const [filePath, localEntry] of local) {
+		const remoteEntry = remote.get(filePath);
+
+		if (remoteEntry && !skipped.has(filePath)) {
+			baseline[filePath] = { local: localEntry.modified, remote: remoteEntry.modified };
+		}
+	}
+
+	for (const filePath of skipped) {
+		if (previous[filePath]) {
+			baseline[filePath] = previous[filePath];
+		}
+	}
+
+	return baseline;
+}
@@ -0,0 +1,40 @@
+import { StringDecoder } from "string_decoder";
+
+export type LogLevel = "info" | "warning" | "error";
+
+const LEVEL_RANKS: Record<LogLevel, number> = {
+	info: 0,
+	warning: 1,
+	error: 2
+};
+
+const LEVEL_PATTERNS: [LogLevel, RegExp][] = [
+	["error", /\b(error|fatal|exception)\b|^\[ERROR\]/i],
+	["warning", /\bwarn(ing)?\b/i]
+];
+
+export function logLevel(line: string): LogLevel {
+	return LEVEL_PATTERNS.find(([, pattern]) => pattern.test(line))?.[0] ?? "info";
+}
+
+export function createLineFilter(pattern: RegExp | null, minLevel: LogLevel = "info") {
+	return (line: string) => LEVEL_RANKS[logLevel(line)] >= LEVEL_RANKS[minLevel] && (!pattern || pattern.test(line));
+}
+
+export class LineSplitter {
+	private decoder = new StringDecoder("utf8");
+	private remainder = "";
+
+	push(chunk: Buffer) {
+		const lines = (this.remainder + this.decoder.write(chunk)).split(/\r?\n/);
+
+		this.remainder = lines.pop()!;
+
+		return lines;
+	}
+
+	reset() {
+		this.decoder = new StringDecoder("utf8");
+		this.remainder = "";
+	}
+}
@@ -0,0 +1,117 @@
+import fs from "fs";
+import { RelayClient } from "./relay";
+import { TraceDirection, TraceEntry, TraceMessage } from "../types";
+
+const REDACTED_FIELDS = new Set(["serverPassword", "password", "encryptionKey", "token", "sessionToken"]);
+
+export class TraceError extends Error { }
+
+export function redact<T>(value: T): T {
+	if (Array.isArray(value)) {
+		return value.map((item) => redact(item)) as T;
+	}
+
+	if (!value || typeof value !== "object") {
+		return value;
+	}
+
+	return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+		key,
+		REDACTED_FIELDS.has(key) && typeof field === "string" ? "<redacted>" : redact(field)
+	])) as T;
+}
+
+export function readTrace(filePath: string): TraceEntry[] {
+	const lines = fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+	const entries: TraceEntry[] = [];
+
+	lines.forEach((line, index) => {
+		if (!line.trim()) {
+			return;
+		}
+
+		let entry: TraceEntry;
+
+		try {
+			entry = JSON.parse(line);
+		} catch {
+			throw new TraceError(`Line ${index + 1} of the protocol trace is not valid JSON`);
+		}
+
+		if (!entry || (entry.direction !== "in" && entry.direction !== "out") || typeof entry.message?.type !== "string") {
+			throw new TraceError(`Line ${index + 1} of the protocol trace is not a trace entry`);
+		}
+
+		entries.push(entry);
+	});
+
+	return entries;
+}
+
+export class TraceRecorder {
+	private stream: fs.WriteStream | null = null;
+	private filePath: string | null = null;
+	private listeners = new Map<RelayClient, (direction: TraceDirection, message: TraceMessage) => void>();
+
+	start(filePath: string) {
+		this.stop();
+
+		this.stream = fs.createWriteStream(filePath, { flags: "w" });
+		this.stream.on("error", (err) => console.error("Failed to write protocol trace:", err));
+		this.filePath = filePath;
+	}
+
+	stop(): Promise<string | null> {
+		const stream = this.stream;
+		const filePath = this.filePath;
+
+		this.stream = null;
+		this.filePath = null;
+
+		if (!stream) {
+			return Promise.resolve(null);
+		}
+
+		return new Promise((resolve) => stream.end(() => resolve(filePath)));
+	}
+
+	isRecording() {
+		return !!this.stream;
+	}
+
+	attach(relay: RelayClient) {
+		if (this.listeners.has(relay)) {
+			return;
+		}
+
+		const listener = (direction: TraceDirection, message: TraceMessage) => this.record(relay.serverKey, direction, message);
+
+		this.listeners.set(relay, listener);
+		relay.on("trace", listener);
+	}
+
+	detach(relay: RelayClient) {
+		const listener = this.listeners.get(relay);
+
+		if (listener) {
+			relay.off("trace", listener);
+			this.listeners.delete(relay);
+		}
+	}
+
+	detachAll() {
+		for (const relay of [...this.listeners.keys()]) {
+			this.detach(relay);
+		}
+	}
+
+	record(server: string, direction: TraceDirection, message: TraceMessage) {
+		if (!this.stream) {
+			return;
+		}
+
+		const entry: TraceEntry = { time: Date.now(), server, direction, message: redact(message) };
+
+		this.stream.write(JSON.stringify(entry) + "\n");
+	}
+}
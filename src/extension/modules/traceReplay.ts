@@ -0,0 +1,168 @@
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { encodeFrame } from "./frame";
+import { RelayMessage, RelayServerUpdateMessage, TraceEntry, TraceMessage } from "../types";
+
+type ReplaySession = {
+	socket: WebSocket;
+	position: number;
+	requestIds: Map<number, number>;
+	sequences: Map<number, number>;
+}
+
+export class TraceReplayServer {
+	private sessions = new Set<ReplaySession>();
+
+	private constructor(private server: WebSocketServer, private entries: TraceEntry[]) {
+		this.server.on("connection", (socket) => this.accept(socket));
+	}
+
+	static start(entries: TraceEntry[]): Promise<TraceReplayServer> {
+		return new Promise((resolve, reject) => {
+			const server = new WebSocketServer({ port: 0, host: "127.0.0.1", handleProtocols: () => false });
+
+			server.once("listening", () => resolve(new TraceReplayServer(server, entries)));
+			server.once("error", reject);
+		});
+	}
+
+	get url() {
+		return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	close(): Promise<void> {
+		for (const session of this.sessions) {
+			session.socket.terminate();
+		}
+
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	private accept(socket: WebSocket) {
+		const session: ReplaySession = { socket, position: 0, requestIds: new Map(), sequences: new Map() };
+
+		this.sessions.add(session);
+
+		socket.on("message", (data, isBinary) => {
+			if (isBinary) {
+				return;
+			}
+
+			let msg: RelayMessage;
+
+			try {
+				msg = JSON.parse(data.toString());
+			} catch {
+				return;
+			}
+
+			if (msg.type === "ping") {
+				socket.send(JSON.stringify({ type: "pong" }));
+				return;
+			}
+
+			const expected = this.entries[session.position]?.message;
+
+			if (msg.type === "client_hello" && expected?.type === "client_hello") {
+				session.position++;
+				return this.play(session);
+			}
+
+			if (msg.type === "client_rpc") {
+				if (expected?.type !== "client_rpc") {
+					return socket.send(JSON.stringify({
+						type: "server_rpc_response",
+						clientId: "replay",
+						requestId: msg.requestId,
+						response: this.encode({ success: false, error_code: "replay_exhausted", error_message: "The protocol trace has no more recorded requests" })
+					}));
+				}
+
+				if (expected.action !== msg.action) {
+					console.warn(`Replaying ${expected.action} for a ${msg.action} request, the trace has diverged`);
+				}
+
+				session.requestIds.set(expected.requestId, msg.requestId);
+				session.position++;
+
+				return this.play(session);
+			}
+		});
+
+		socket.on("close", () => this.sessions.delete(session));
+
+		this.play(session);
+	}
+
+	private play(session: ReplaySession) {
+		while (session.position < this.entries.length) {
+			const { direction, message } = this.entries[session.position];
+
+			if (direction === "out") {
+				if (message.type === "client_hello" || message.type === "client_rpc") {
+					return;
+				}
+
+				session.position++;
+				continue;
+			}
+
+			session.position++;
+			this.send(session, message);
+		}
+	}
+
+	private send(session: ReplaySession, message: TraceMessage) {
+		const mapRequestId = (requestId: number) => session.requestIds.get(requestId) ?? requestId;
+
+		switch (message.type) {
+			case "server_update":
+				return session.socket.send(JSON.stringify(this.plaintextUpdate(message)));
+			case "client_hello_failure":
+				return session.socket.send(JSON.stringify(message));
+			case "server_rpc_stream_start":
+			case "server_rpc_stream_stop":
+				return session.socket.send(JSON.stringify({ ...message, requestId: mapRequestId(message.requestId) }));
+			case "server_rpc_response":
+				if (typeof message.response === "string") {
+					console.warn(`Skipping undecoded response for request ${message.requestId}`);
+					return;
+				}
+
+				return session.socket.send(JSON.stringify({
+					...message,
+					requestId: mapRequestId(message.requestId),
+					response: this.encode(message.response)
+				}));
+			case "server_fs_change":
+				return session.socket.send(JSON.stringify({ ...message, payload: this.encode(JSON.parse(message.payload)) }));
+			case "binary": {
+				if (message.data === undefined) {
+					return;
+				}
+
+				const requestId = mapRequestId(message.requestId);
+				const sequence = session.sequences.get(requestId) ?? 0;
+
+				session.sequences.set(requestId, sequence + 1);
+
+				return session.socket.send(encodeFrame({ requestId, sequence, payload: Buffer.from(message.data, "base64") }));
+			}
+		}
+	}
+
+	private plaintextUpdate(message: RelayServerUpdateMessage): RelayServerUpdateMessage {
+		return {
+			...message,
+			cipher: "none",
+			compression: "none",
+			frameFormat: "tagged",
+			sessionToken: undefined,
+			resumed: undefined
+		};
+	}
+
+	private encode(response: object) {
+		return Buffer.from(JSON.stringify(response), "utf8").toString("base64");
+	}
+}
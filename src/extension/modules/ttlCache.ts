@@ -0,0 +1,48 @@
+export class TtlCache<V> {
+	private entries = new Map<string, { value: V; expires: number }>();
+
+	constructor(private ttl: () => number) { }
+
+	get(key: string): V | undefined {
+		const entry = this.entries.get(key);
+
+		if (!entry) {
+			return undefined;
+		}
+
+		if (entry.expires <= Date.now()) {
+			this.entries.delete(key);
+			return undefined;
+		}
+
+		return entry.value;
+	}
+
+	set(key: string, value: V) {
+		const ttl = this.ttl();
+
+		if (ttl <= 0) {
+			return;
+		}
+
+		this.entries.set(key, { value, expires: Date.now() + ttl });
+	}
+
+	delete(key: string) {
+		this.entries.delete(key);
+	}
+
+	deleteTree(key: string) {
+		const prefix = key.endsWith("/") ? key : key + "/";
+
+		for (const existing of [...this.entries.keys()]) {
+			if (existing === key || existing.startsWith(prefix)) {
+				this.entries.delete(existing);
+			}
+		}
+	}
+
+	clear() {
+		this.entries.clear();
+	}
+}
@@ -0,0 +1,131 @@
+import { RelayRPCAction } from "../types";
+
+type Validator = (value: unknown, path: string) => string | null;
+
+function describe(value: unknown) {
+	if (value === null) {
+		return "null";
+	}
+
+	return Array.isArray(value) ? "array" : typeof value;
+}
+
+function primitive(expected: "string" | "number" | "boolean"): Validator {
+	return (value, path) => typeof value === expected ? null : `expected ${expected} at ${path}, got ${describe(value)}`;
+}
+
+function oneOf(...values: string[]): Validator {
+	return (value, path) => values.includes(value as string)
+		? null
+		: `expected one of ${values.map((v) => `"${v}"`).join(", ")} at ${path}, got ${JSON.stringify(value)}`;
+}
+
+function optional(validator: Validator): Validator {
+	return (value, path) => value === undefined || value === null ? null : validator(value, path);
+}
+
+function array(validator: Validator): Validator {
+	return (value, path) => {
+		if (!Array.isArray(value)) {
+			return `expected array at ${path}, got ${describe(value)}`;
+		}
+
+		for (let i = 0; i < value.length; i++) {
+			const error = validator(value[i], `${path}[${i}]`);
+
+			if (error) {
+				return error;
+			}
+		}
+
+		return null;
+	};
+}
+
+function object(shape: Record<string, Validator>): Validator {
+	return (value, path) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			return `expected object at ${path}, got ${describe(value)}`;
+		}
+
+		for (const [key, validator] of Object.entries(shape)) {
+			const error = validator((value as Record<string, unknown>)[key], `${path}.${key}`);
+
+			if (error) {
+				return error;
+			}
+		}
+
+		return null;
+	};
+}
+
+const string = primitive("string");
+const number = primitive("number");
+const boolean = primitive("boolean");
+
+const baseResponse = object({
+	success: boolean,
+	error_code: optional(string)
+});
+
+const searchResult = object({
+	file: string,
+	line: number,
+	lineText: string,
+	matchStart: number,
+	matchEnd: number
+});
+
+const successValidators: Partial<Record<RelayRPCAction, Validator>> = {
+	"FS.Stat": object({
+		type: optional(oneOf("directory", "file")),
+		size: optional(number),
+		created: optional(number),
+		modified: optional(number)
+	}),
+	"FS.ListFiles": object({
+		entries: array(object({
+			name: string,
+			type: oneOf("directory", "file"),
+			lastModified: number,
+			size: optional(number)
+		}))
+	}),
+	"FS.Write": object({
+		hash: optional(string)
+	}),
+	"FS.WriteAtomic": object({
+		hash: optional(string)
+	}),
+	"FS.Truncate": object({
+		size: optional(number)
+	}),
+	"FS.Search": object({
+		results: optional(array(searchResult))
+	}),
+	"FS.Watch": object({
+		watchId: string
+	})
+};
+
+const fileChanges = object({
+	changes: array(object({
+		type: oneOf("created", "changed", "deleted"),
+		path: string
+	}))
+});
+
+export function validateResponse(action: RelayRPCAction, response: unknown): string | null {
+	const error = baseResponse(response, "response");
+
+	if (error || !(response as { success: boolean }).success) {
+		return error;
+	}
+
+	return successValidators[action]?.(response, "response") ?? null;
+}
+
+export function validateFileChanges(payload: unknown): string | null {
+	return fileChanges(payload, "payload");
+}
@@ -1,17 +1,19 @@
 import * as vscode from "vscode";
+import { DIRECT_PROXY } from "../modules/proxy";
 import { RelayClient } from "../modules/relay";
-import { getServers, removeServer, storeNewServer } from "./serverProvider";
-import { Server } from "../types";
-import { useRemoteFS } from "./fileSystemProvider";
+import { RelayPool } from "../modules/relayPool";
+import { describeServer, getServers, removeServer, storeNewServer, validateServerName } from "./serverProvider";
+import { Server, ServerMode } from "../types";
+import { remoteUri, useRemoteFS } from "./fileSystemProvider";
 
-export function useCommands(context: vscode.ExtensionContext, relay: RelayClient) {
+export function useCommands(context: vscode.ExtensionContext, relays: RelayPool) {
 	context.subscriptions.push(vscode.commands.registerCommand("gmod-remote.connect", async () => {
 		const currentServers = getServers();
 
 		const serverList: { id: number; label: string; description: string; server: Server | null; type: "server" | "add-server" | "remove-server" }[] = currentServers.map((server, idx) => ({
 			id: idx,
 			label: server.name,
-			description: `${server.address} via ${server.relay}`,
+			description: `${describeServer(server)}${relays.get(server.name)?.isConnected() ? " (connected)" : ""}`,
 			server: server,
 			type: "server"
 		}));
@@ -57,19 +59,29 @@ export function useCommands(context: vscode.ExtensionContext, relay: RelayClient
 			vscode.window.showInformationMessage("Server removed successfully");
 			return;
 		} else if (selectedServer.type === "add-server") {
-			const [name, address, relay, password, encryptionKey] = await getNewServerInfo();
+			const [name, address, mode, url, password, encryptionKey, proxy] = await getNewServerInfo(currentServers);
 
-			if (!name || !address || !relay) {
+			if (!name || !address || !mode || !url) {
 				vscode.window.showErrorMessage("Please fill in all the fields");
 				return;
 			};
 
+			const nameError = validateServerName(name, currentServers);
+
+			if (nameError) {
+				vscode.window.showErrorMessage(nameError);
+				return;
+			}
+
 			server = {
 				name,
 				address,
-				relay,
+				mode,
+				relay: mode === "relay" ? url : "",
+				listener: mode === "direct" ? url : undefined,
 				password: password || "",
-				encryptionKey: encryptionKey || ""
+				encryptionKey: encryptionKey || "",
+				proxy: proxy || undefined
 			};
 
 			storeNewServer(currentServers, server);
@@ -79,24 +91,92 @@ export function useCommands(context: vscode.ExtensionContext, relay: RelayClient
 			return;
 		};
 
-		useRemoteFS(relay, context).connect(server);
+		useRemoteFS(relays, context).connect(server);
 	}));
 
 	context.subscriptions.push(vscode.commands.registerCommand("gmod-remote.disconnect", async () => {
-		useRemoteFS(relay, context).disconnect();
+		const relay = await pickRelay(relays.all(), "Select a server to disconnect from");
+
+		if (!relay) {
+			return;
+		}
+
+		useRemoteFS(relays, context).disconnect(relay.serverKey);
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand("gmod-remote.retryConnection", async () => {
+		(await pickRelay(relays.reconnecting(), "Select a server to retry"))?.retryNow();
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand("gmod-remote.stopReconnecting", async () => {
+		(await pickRelay(relays.reconnecting(), "Select a server to stop reconnecting to"))?.stopReconnecting();
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand("gmod-remote.reconnectActions", async () => {
+		const relay = await pickRelay(relays.reconnecting(), "Select a reconnecting server");
+
+		if (!relay) {
+			return vscode.commands.executeCommand("gmod-remote.connect");
+		}
+
+		const action = await vscode.window.showQuickPick(["Retry now", "Stop"], {
+			placeHolder: `Reconnecting to ${relay.name()}`
+		});
+
+		if (action === "Retry now") {
+			relay.retryNow();
+		} else if (action === "Stop") {
+			relay.stopReconnecting();
+		}
+	}));
+
+	context.subscriptions.push(vscode.commands.registerCommand("gmod-remote.refreshFolder", async (uri?: vscode.Uri) => {
+		if (uri?.scheme !== "gmod") {
+			const relay = await pickRelay(relays.all(), "Select a server to refresh");
+
+			if (!relay) {
+				return;
+			}
+
+			uri = remoteUri(relay.serverKey);
+		}
+
+		useRemoteFS(relays, context).refreshFolder(uri);
+		await vscode.commands.executeCommand("workbench.files.action.refreshFilesExplorer");
 	}));
 }
 
-async function getNewServerInfo() {
+export async function pickRelay(candidates: RelayClient[], placeHolder: string) {
+	if (candidates.length <= 1) {
+		return candidates[0];
+	}
+
+	const selected = await vscode.window.showQuickPick(candidates.map((relay) => ({
+		label: relay.name(),
+		description: relay.isConnected() ? "Connected" : "Disconnected",
+		relay
+	})), { placeHolder });
+
+	return selected?.relay;
+}
+
+async function getNewServerInfo(servers: Server[]) {
 	const name = await vscode.window.showInputBox({
-		prompt: "Enter the name of the server"
+		prompt: "Enter the name of the server",
+		validateInput: (value) => validateServerName(value, servers)
 	});
 
 	const address = await vscode.window.showInputBox({
 		prompt: "Enter the address of the server"
 	});
 
-	const relay = await vscode.window.showInputBox({
+	const mode = await pickServerMode();
+
+	const url = mode === "direct" ? await vscode.window.showInputBox({
+		prompt: "Enter the URL of the gmsv_remote listener on the server",
+		value: "ws://",
+		validateInput: (value) => /^wss?:\/\/.+/.test(value) ? null : "The URL must start with ws:// or wss://"
+	}) : await vscode.window.showInputBox({
 		prompt: "Enter the relay of the server",
 		value: "wss://gmsv_remote.asrieldev.workers.dev"
 	});
@@ -109,5 +189,18 @@ async function getNewServerInfo() {
 		prompt: "Enter the encryption key of the server (Leave blank for none)",
 	});
 
-	return [name, address, relay, password, encryptionKey];
+	const proxy = await vscode.window.showInputBox({
+		prompt: `Enter a proxy for this server, e.g. http://host:port or socks5://host:port (Leave blank to use http.proxy, "${DIRECT_PROXY}" to bypass it)`
+	});
+
+	return [name, address, mode, url, password, encryptionKey, proxy] as const;
+}
+
+async function pickServerMode(): Promise<ServerMode | undefined> {
+	const selected = await vscode.window.showQuickPick([
+		{ label: "Relay", description: "Connect through a gmsv_remote relay", mode: "relay" as const },
+		{ label: "Direct", description: "Connect straight to the gmsv_remote listener on the server", mode: "direct" as const }
+	], { placeHolder: "How should the extension reach this server?" });
+
+	return selected?.mode;
 }
\ No newline at end of file
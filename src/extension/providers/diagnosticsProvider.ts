@@ -0,0 +1,206 @@
+import * as vscode from "vscode";
+import { formatBytes } from "../modules/format";
+import { RelayPool } from "../modules/relayPool";
+import { RelayClient } from "../modules/relay";
+import { RelayMetricsSnapshot } from "../types";
+
+export function useDiagnostics(context: vscode.ExtensionContext, relays: RelayPool) {
+	if (!globalThis.gmodDiagnosticsPanel) {
+		globalThis.gmodDiagnosticsPanel = new DiagnosticsPanel(context, relays);
+	}
+
+	return globalThis.gmodDiagnosticsPanel;
+}
+
+function escapeHtml(value: string) {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+export class DiagnosticsPanel implements vscode.Disposable {
+	private panel?: vscode.WebviewPanel;
+	private refreshInterval?: NodeJS.Timeout;
+
+	constructor(private context: vscode.ExtensionContext, private relays: RelayPool) { }
+
+	show() {
+		if (this.panel) {
+			this.panel.reveal();
+			return;
+		}
+
+		this.panel = vscode.window.createWebviewPanel("gmod-remote.diagnostics", "GMod Remote: Diagnostics", vscode.ViewColumn.Active, {
+			enableScripts: true
+		});
+
+		this.panel.webview.html = this.getHtml();
+		this.panel.onDidDispose(() => this.dispose(), null, this.context.subscriptions);
+
+		this.refreshInterval = setInterval(() => this.refresh(), 2000);
+		this.refresh();
+	}
+
+	private refresh() {
+		if (!this.panel || !this.panel.visible) {
+			return;
+		}
+
+		const sections = this.relays.all().map((relay) => this.renderRelay(relay));
+
+		this.panel.webview.postMessage({
+			type: "update",
+			html: sections.length > 0 ? sections.join("") : "<p class=\"empty\">No servers are connected.</p>"
+		});
+	}
+
+	private renderRelay(relay: RelayClient) {
+		const metrics: RelayMetricsSnapshot = relay.metrics.snapshot();
+		const latest = metrics.latency[metrics.latency.length - 1];
+		const average = metrics.latency.length > 0
+			? Math.round(metrics.latency.reduce((total, sample) => total + sample.rtt, 0) / metrics.latency.length)
+			: undefined;
+
+		const maxRtt = Math.max(1, ...metrics.latency.map((sample) => sample.rtt));
+		const bars = metrics.latency.map((sample) =>
+			`<span class="bar" style="height: ${Math.max(2, Math.round(sample.rtt / maxRtt * 40))}px" title="${sample.rtt} ms at ${new Date(sample.time).toLocaleTimeString()}"></span>`
+		).join("");
+
+		const actions = Object.entries(metrics.actions).map(([action, stats]) => `
+			<tr>
+				<td>${escapeHtml(action)}</td>
+				<td>${stats.count}</td>
+				<td>${Math.round(stats.totalTime / stats.count)} ms</td>
+				<td>${stats.maxTime} ms</td>
+				<td>${stats.lastTime} ms</td>
+				<td>${stats.failures}</td>
+				<td>${stats.timeouts}</td>
+			</tr>`).join("");
+
+		const events = [...metrics.connectionEvents].reverse().map((event) => `
+			<tr>
+				<td>${new Date(event.time).toLocaleTimeString()}</td>
+				<td>${event.kind}</td>
+				<td>${escapeHtml(event.detail || "")}</td>
+			</tr>`).join("");
+
+		return `
+			<section>
+				<h2>${escapeHtml(relay.name())} <span class="state">${relay.isConnected() ? "connected" : relay.isReconnecting() ? "reconnecting" : "disconnected"}</span></h2>
+				<div class="summary">
+					<div><label>Latency</label>${latest ? `${latest.rtt} ms` : "-"}</div>
+					<div><label>Average</label>${average !== undefined ? `${average} ms` : "-"}</div>
+					<div><label>Sent</label>${formatBytes(metrics.bytesSent)}</div>
+					<div><label>Received</label>${formatBytes(metrics.bytesReceived)}</div>
+					<div><label>Failed</label>${metrics.failed}</div>
+					<div><label>Timed out</label>${metrics.timedOut}</div>
+				</div>
+				<div class="latency">${bars || "<span class=\"empty\">No latency samples yet</span>"}</div>
+				<h3>Requests</h3>
+				<table>
+					<tr><th>Action</th><th>Calls</th><th>Average</th><th>Max</th><th>Last</th><th>Failed</th><th>Timed out</th></tr>
+					${actions || "<tr><td colspan=\"7\" class=\"empty\">No requests yet</td></tr>"}
+				</table>
+				<h3>Connection history</h3>
+				<table>
+					<tr><th>Time</th><th>Event</th><th>Detail</th></tr>
+					${events}
+				</table>
+			</section>`;
+	}
+
+	private getHtml() {
+		return `<!DOCTYPE html>
+<html lang="en">
+	<head>
+		<meta charset="UTF-8">
+		<meta name="viewport" content="width=device-width, initial-scale=1.0">
+		<style>
+			body {
+				font-family: var(--vscode-font-family);
+				font-size: var(--vscode-font-size);
+				color: var(--vscode-foreground);
+			}
+
+			section {
+				margin-bottom: 32px;
+			}
+
+			.state {
+				font-size: 0.7em;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.summary {
+				display: flex;
+				flex-wrap: wrap;
+				gap: 24px;
+				margin-bottom: 12px;
+			}
+
+			.summary label {
+				display: block;
+				color: var(--vscode-descriptionForeground);
+			}
+
+			.latency {
+				display: flex;
+				align-items: flex-end;
+				gap: 2px;
+				height: 44px;
+				margin-bottom: 12px;
+			}
+
+			.bar {
+				width: 6px;
+				background: var(--vscode-charts-blue);
+			}
+
+			table {
+				border-collapse: collapse;
+				width: 100%;
+			}
+
+			th, td {
+				text-align: left;
+				padding: 2px 8px;
+				border-bottom: 1px solid var(--vscode-panel-border);
+			}
+
+			.empty {
+				color: var(--vscode-descriptionForeground);
+			}
+		</style>
+	</head>
+	<body>
+		<div id="content"></div>
+		<script>
+			const content = document.getElementById('content');
+
+			window.addEventListener('message', event => {
+				if (event.data.type === 'update') {
+					content.innerHTML = event.data.html;
+				}
+			});
+		</script>
+	</body>
+</html>`;
+	}
+
+	dispose() {
+		if (this.refreshInterval) {
+			clearInterval(this.refreshInterval);
+			this.refreshInterval = undefined;
+		}
+
+		const panel = this.panel;
+		this.panel = undefined;
+		panel?.dispose();
+	}
+}
+
+declare global {
+	var gmodDiagnosticsPanel: DiagnosticsPanel | undefined;
+}
@@ -1,32 +1,87 @@
 import * as vscode from "vscode";
+import crypto from "crypto";
+import { formatBytes } from "../modules/format";
+import { digest, hashesMatch } from "../modules/integrity";
 import { RelayClient } from "../modules/relay";
-import { ActiveConnection, ListFilesEntry, RelayRPCResponseCopy, RelayRPCResponseDelete, RelayRPCResponseListFiles, RelayRPCResponseMkdir, RelayRPCResponseRead, RelayRPCResponseRename, RelayRPCResponseStat, RelayRPCResponseTruncate, RelayRPCResponseWrite, Server } from "../types";
+import { RelayPool } from "../modules/relayPool";
+import { TtlCache } from "../modules/ttlCache";
+import { RemoteWatcher } from "./remoteWatcher";
+import { serverUrl } from "./serverProvider";
+import { ActiveConnection, ListFilesEntry, RelayRPCResponse, RelayRPCResponseWrite, Server } from "../types";
+
+const STREAM_IDLE_TIMEOUT = 30000;
+const OWN_WRITE_GRACE = 2000;
+const UPLOAD_RETRY_DELAY = 250;
+const UPLOAD_FRAME_OVERHEAD = 1024;
+export const SERVER_VERSION_SCHEME = "gmod-server";
+
+const RETRYABLE_WRITE_ERRORS = new Set(["not_connected", "timeout", "connection_lost", "session_lost", "queue_full", "integrity_mismatch"]);
+
+function cacheTtl() {
+	return vscode.workspace.getConfiguration("gmodRemote").get<number>("cache.ttl", 5000);
+}
 
-export function useRemoteFS(relay: RelayClient, context: vscode.ExtensionContext) {
+export function useRemoteFS(relays: RelayPool, context: vscode.ExtensionContext) {
 	if (!globalThis.gmodRemoteFileSystemProvider) {
-		globalThis.gmodRemoteFileSystemProvider = new RemoteFileSystemProvider(relay, context);
+		globalThis.gmodRemoteFileSystemProvider = new RemoteFileSystemProvider(relays, context);
 	}
 
 	return globalThis.gmodRemoteFileSystemProvider;
 }
 
-export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
-	private connected = false;
+export function remoteUri(serverName: string, path = "/") {
+	return vscode.Uri.parse("gmod:/").with({ authority: serverName, path });
+}
+
+export class RemoteFileSystemProvider implements vscode.FileSystemProvider, vscode.TextDocumentContentProvider {
 	private emitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	private serverVersionEmitter = new vscode.EventEmitter<vscode.Uri>();
+	private watcher: RemoteWatcher;
+	private recentWrites = new Map<string, number>();
+	private conflictWarnings = new Set<string>();
+	private stats = new TtlCache<vscode.FileStat | null>(cacheTtl);
+	private listings = new TtlCache<[string, vscode.FileType][]>(cacheTtl);
+	private versions = new Map<string, number>();
+	private forcedWrites = new Set<string>();
 	onDidChangeFile = this.emitter.event;
+	onDidChange = this.serverVersionEmitter.event;
 
-	constructor(private relay: RelayClient, private context: vscode.ExtensionContext) {
-		this.relay.on("connected", () => {
-			this.connected = true;
+	constructor(private relays: RelayPool, private context: vscode.ExtensionContext) {
+		this.watcher = new RemoteWatcher(relays, (events) => this.receiveRemoteChanges(events));
 
-			this.refresh(vscode.Uri.parse("gmod:/"));
+		this.relays.on("added", (relay: RelayClient) => {
+			relay.on("connected", () => this.refreshServer(relay.serverKey));
+			relay.on("disconnected", () => this.refreshServer(relay.serverKey));
 		});
+	}
 
-		this.relay.on("disconnected", () => {
-			this.connected = false;
+	private refreshServer(serverKey: string) {
+		const uri = remoteUri(serverKey);
 
-			this.refresh(vscode.Uri.parse("gmod:/"));
-		});
+		this.invalidate(uri, true);
+		this.refresh(uri);
+	}
+
+	invalidate(uri: vscode.Uri, recursive = false) {
+		const key = uri.toString();
+
+		if (recursive) {
+			this.stats.deleteTree(key);
+			this.listings.deleteTree(key);
+		}
+		else {
+			this.stats.delete(key);
+			this.listings.delete(key);
+		}
+
+		if (uri.path !== "/") {
+			this.listings.delete(uri.with({ path: uri.path.replace(/\/[^/]*$/, "") || "/" }).toString());
+		}
+	}
+
+	refreshFolder(uri: vscode.Uri) {
+		this.invalidate(uri, true);
+		this.refresh(uri);
 	}
 
 	refresh(uri: vscode.Uri) {
@@ -55,15 +110,73 @@ export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
 		}, 5);
 	}
 
-	watch(): vscode.Disposable {
-		return new vscode.Disposable(() => { });
+	watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[] }): vscode.Disposable {
+		return this.watcher.watch(uri, options);
+	}
+
+	private isOwnWrite(key: string) {
+		const writtenAt = this.recentWrites.get(key);
+
+		if (writtenAt === undefined) {
+			return false;
+		}
+
+		if (Date.now() - writtenAt < OWN_WRITE_GRACE) {
+			return true;
+		}
+
+		this.recentWrites.delete(key);
+		return false;
+	}
+
+	private receiveRemoteChanges(events: vscode.FileChangeEvent[]) {
+		for (const event of events) {
+			this.invalidate(event.uri, event.type !== vscode.FileChangeType.Changed);
+		}
+
+		this.emitter.fire(events);
+
+		for (const event of events) {
+			const key = event.uri.toString();
+
+			if (event.type !== vscode.FileChangeType.Changed || this.conflictWarnings.has(key) || this.isOwnWrite(key)) {
+				continue;
+			}
+
+			const document = vscode.workspace.textDocuments.find((candidate) => candidate.uri.toString() === key);
+
+			if (!document || !document.isDirty) {
+				continue;
+			}
+
+			this.conflictWarnings.add(key);
+
+			vscode.window.showWarningMessage(`${event.uri.path} was changed on the server while you have unsaved changes.`, "Reload", "Keep Mine").then(async (choice) => {
+				this.conflictWarnings.delete(key);
+
+				if (choice === "Reload") {
+					await vscode.window.showTextDocument(document);
+					await vscode.commands.executeCommand("workbench.action.files.revert");
+				}
+			});
+		}
 	}
 
 	private toServerPath(uri: vscode.Uri) {
 		return uri.path;
 	}
 
-	private throwError(errorCode: string | undefined, path: string) {
+	private relayFor(uri: vscode.Uri, allowQueue = false): RelayClient {
+		const relay = this.relays.forUri(uri);
+
+		if (!relay || (!relay.isConnected() && !(allowQueue && relay.isQueueing()))) {
+			this.throwError("not_connected", uri.path);
+		}
+
+		return relay;
+	}
+
+	private throwError(errorCode: string | undefined, path: string, message?: string): never {
 		if (!errorCode) {
 			throw vscode.FileSystemError.Unavailable("An unknown error occurred");
 		}
@@ -83,6 +196,34 @@ export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
 				throw vscode.FileSystemError.FileExists(path);
 			case "connection_lost":
 				throw vscode.FileSystemError.Unavailable("Connection lost");
+			case "timeout":
+				throw vscode.FileSystemError.Unavailable("The server took too long to respond");
+			case "cancelled":
+				throw vscode.FileSystemError.Unavailable("The request was cancelled");
+			case "payload_too_large":
+				throw vscode.FileSystemError.Unavailable("The request is larger than the server allows");
+			case "queue_full":
+				throw vscode.FileSystemError.Unavailable("Too many requests are waiting for the connection to come back");
+			case "decrypt_failed":
+				throw vscode.FileSystemError.Unavailable("Failed to decrypt the server response, check the encryption key");
+			case "invalid_response":
+				throw vscode.FileSystemError.Unavailable(message || "The server sent an invalid response");
+			case "stream_out_of_order":
+				throw vscode.FileSystemError.Unavailable("The server sent file chunks out of order");
+			case "stream_incomplete":
+				throw vscode.FileSystemError.Unavailable("The server stream ended before all chunks arrived");
+			case "session_lost":
+				throw vscode.FileSystemError.Unavailable("The connection dropped and the transfer could not be resumed");
+			case "integrity_mismatch":
+				throw vscode.FileSystemError.Unavailable(`The contents of ${path} were corrupted in transfer`);
+			case "directory_not_empty":
+				throw vscode.FileSystemError.NoPermissions(`${path} is not empty`);
+			case "partial_failure":
+				throw vscode.FileSystemError.Unavailable(message || `Some entries in ${path} could not be processed`);
+			case "file_conflict":
+				throw vscode.FileSystemError.Unavailable(`${path} was changed on the server after you opened it`);
+			case "read_range_unsupported":
+				throw vscode.FileSystemError.Unavailable("The server does not support reading part of a file");
 			default:
 				throw vscode.FileSystemError.Unavailable("An unknown error occurred: " + errorCode);
 		}
@@ -98,20 +239,31 @@ export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
 			};
 		}
 
-		if (!this.connected) {
-			throw vscode.FileSystemError.Unavailable("Not connected");
+		const key = uri.toString();
+		const cached = this.stats.get(key);
+
+		if (cached === null) {
+			throw vscode.FileSystemError.FileNotFound(uri.path);
 		}
 
-		const res: RelayRPCResponseStat = await this.relay.rpc("FS.Stat", {
+		if (cached) {
+			return cached;
+		}
+
+		const relay = this.relayFor(uri, true);
+		const res = await relay.rpc("FS.Stat", {
 			path: this.toServerPath(uri)
 		});
 
 		if (!res.success) {
+			if (res.error_code === "file_not_found") {
+				this.stats.set(key, null);
+			}
 
-			throw vscode.FileSystemError.FileNotFound(uri.path);
+			this.throwError(res.error_code, uri.path, res.error_message);
 		}
 
-		return {
+		const stat: vscode.FileStat = {
 			type: res.type === "directory"
 				? vscode.FileType.Directory
 				: vscode.FileType.File,
@@ -119,15 +271,22 @@ export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
 			mtime: res.modified || Date.now(),
 			size: res.size || 0
 		};
+
+		this.stats.set(key, stat);
+
+		return stat;
 	}
 
 	async readDirectory(uri: vscode.Uri) {
-		if (!this.connected) {
+		const key = uri.toString();
+		const cached = this.listings.get(key);
 
-			throw vscode.FileSystemError.Unavailable("Not connected");
+		if (cached) {
+			return cached;
 		}
 
-		const res: RelayRPCResponseListFiles = await this.relay.rpc("FS.ListFiles", {
+		const relay = this.relayFor(uri, true);
+		const res = await relay.rpc("FS.ListFiles", {
 			path: this.toServerPath(uri)
 		});
 
@@ -135,150 +294,578 @@ export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
 			switch (res.error_code) {
 				case "not_a_directory":
 					throw vscode.FileSystemError.FileNotADirectory(uri.path);
+				case "timeout":
+				case "cancelled":
+				case "connection_lost":
+				case "payload_too_large":
+				case "queue_full":
+					this.throwError(res.error_code, uri.path, res.error_message);
 				default:
 					throw vscode.FileSystemError.FileNotFound(uri.path);
 			}
 		}
 
-		return res.entries!.map((e: ListFilesEntry): [string, vscode.FileType] => [
+		const entries = res.entries!.map((e: ListFilesEntry): [string, vscode.FileType] => [
 			e.name,
 			e.type === "directory"
 				? vscode.FileType.Directory
 				: vscode.FileType.File
 		]);
+
+		this.listings.set(key, entries);
+
+		return entries;
+	}
+
+	private async remoteModified(relay: RelayClient, uri: vscode.Uri) {
+		const res = await relay.rpc("FS.Stat", {
+			path: this.toServerPath(uri)
+		});
+
+		return res.success ? res.modified : undefined;
+	}
+
+	private recordVersion(uri: vscode.Uri, modified: number | undefined) {
+		if (modified === undefined) {
+			this.versions.delete(uri.toString());
+		}
+		else {
+			this.versions.set(uri.toString(), modified);
+		}
 	}
 
 	async readFile(uri: vscode.Uri): Promise<Uint8Array> {
-		if (!this.connected) {
-			this.throwError("not_connected", uri.path);
+		const relay = this.relayFor(uri, true);
+		const modified = await this.remoteModified(relay, uri);
+		const contents = await this.download(relay, uri);
+
+		this.recordVersion(uri, modified);
+
+		return contents;
+	}
+
+	async provideTextDocumentContent(uri: vscode.Uri) {
+		const remote = uri.with({ scheme: "gmod" });
+
+		return (await this.download(this.relayFor(remote, true), remote)).toString("utf8");
+	}
+
+	async readRange(uri: vscode.Uri, offset: number, length?: number): Promise<Uint8Array> {
+		const relay = this.relayFor(uri, true);
+
+		if (!relay.supports("read_range")) {
+			this.throwError("read_range_unsupported", uri.path);
 		}
 
+		return this.download(relay, uri, { offset, length });
+	}
+
+	private async download(relay: RelayClient, uri: vscode.Uri, range?: { offset: number; length?: number }) {
 		const serverPath = this.toServerPath(uri);
 
-		const res: RelayRPCResponseRead = await this.relay.rpc("FS.Read", {
-			path: serverPath
+		const res = await relay.rpc("FS.Read", {
+			path: serverPath,
+			...range
 		});
 
 		if (!res.success) {
-			this.throwError(res.error_code, uri.path);
+			this.throwError(res.error_code, uri.path, res.error_message);
 		}
 
 		const requestId = res.requestId;
 		let fileChunks: Uint8Array[] = [];
 
-		await this.relay.streamFillBuffer(requestId, fileChunks);
+		try {
+			await relay.streamFillBuffer(requestId, fileChunks, { timeout: STREAM_IDLE_TIMEOUT });
+		} catch (err) {
+			this.throwError((err as RelayRPCResponse).error_code, uri.path, (err as RelayRPCResponse).error_message);
+		}
 
 		return Buffer.concat(fileChunks);
 	}
 
-	async writeFile(uri: vscode.Uri, content: Uint8Array) {
-		if (!this.connected) {
-			throw vscode.FileSystemError.Unavailable("Not connected");
+	private uploadChunkSize(relay: RelayClient) {
+		const configured = vscode.workspace.getConfiguration("gmodRemote").get<number>("upload.chunkSize", 262144);
+		const maxFrameSize = relay.capabilities()?.limits.maxFrameSize;
+
+		if (!maxFrameSize) {
+			return Math.max(1, configured);
+		}
+
+		// Chunks are base64 encoded and the payload may be encrypted and encoded again
+		return Math.max(1, Math.min(configured, Math.floor((maxFrameSize - UPLOAD_FRAME_OVERHEAD) / 2)));
+	}
+
+	private async sendWrite(relay: RelayClient, uri: vscode.Uri, data: Uint8Array, send: (hash?: string) => Promise<RelayRPCResponseWrite>, token?: vscode.CancellationToken) {
+		const retries = vscode.workspace.getConfiguration("gmodRemote").get<number>("upload.retries", 3);
+		let errorCode: string | undefined;
+		let errorMessage: string | undefined;
+
+		for (let attempt = 0; attempt <= retries; attempt++) {
+			if (attempt > 0) {
+				await new Promise((resolve) => setTimeout(resolve, UPLOAD_RETRY_DELAY * attempt));
+			}
+
+			if (token?.isCancellationRequested) {
+				this.throwError("cancelled", uri.path);
+			}
+
+			const algorithm = relay.integrityAlgorithm();
+			const hash = algorithm ? digest(algorithm, data) : undefined;
+			let res;
+
+			try {
+				res = await send(hash);
+			} catch {
+				errorCode = "not_connected";
+				errorMessage = undefined;
+				continue;
+			}
+
+			if (res.success && (!hash || !res.hash || hashesMatch(hash, res.hash))) {
+				this.recentWrites.set(uri.toString(), Date.now());
+				this.invalidate(uri);
+				return;
+			}
+
+			errorCode = res.success ? "integrity_mismatch" : res.error_code;
+			errorMessage = res.error_message;
+
+			if (!errorCode || !RETRYABLE_WRITE_ERRORS.has(errorCode)) {
+				break;
+			}
 		}
 
-		const res: RelayRPCResponseWrite = await this.relay.rpc("FS.Write", {
+		this.throwError(errorCode, uri.path, errorMessage);
+	}
+
+	private writeChunk(relay: RelayClient, uri: vscode.Uri, data: Uint8Array, offset: number, token?: vscode.CancellationToken) {
+		return this.sendWrite(relay, uri, data, (hash) => relay.rpc("FS.Write", {
 			path: this.toServerPath(uri),
-			offset: 0,
-			data: Buffer.from(content).toString("base64")
+			offset,
+			data: Buffer.from(data).toString("base64"),
+			hash
+		}, { signal: token }), token);
+	}
+
+	private async upload(relay: RelayClient, uri: vscode.Uri, content: Uint8Array, chunkSize: number, name: string) {
+		const chunkCount = Math.max(1, Math.ceil(content.length / chunkSize));
+
+		if (chunkCount === 1) {
+			return this.writeChunk(relay, uri, content, 0);
+		}
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Uploading ${name}`,
+			cancellable: true
+		}, async (progress, token) => {
+			for (let chunk = 0; chunk < chunkCount; chunk++) {
+				const offset = chunk * chunkSize;
+				const data = content.subarray(offset, offset + chunkSize);
+
+				await this.writeChunk(relay, uri, data, offset, token);
+
+				progress.report({
+					increment: 100 / chunkCount,
+					message: `${formatBytes(offset + data.length)} of ${formatBytes(content.length)}`
+				});
+			}
 		});
+	}
 
-		if (!res.success) {
-			this.throwError(res.error_code, uri.path);
+	private async replaceThroughTemp(relay: RelayClient, uri: vscode.Uri, content: Uint8Array, chunkSize: number, name: string) {
+		const tempUri = uri.with({ path: uri.path.replace(/[^/]*$/, `.${name}.${crypto.randomBytes(4).toString("hex")}.tmp`) });
+
+		try {
+			await this.upload(relay, tempUri, content, chunkSize, name);
+
+			const stat = await relay.rpc("FS.Stat", { path: this.toServerPath(tempUri) });
+
+			if (!stat.success) {
+				this.throwError(stat.error_code, uri.path, stat.error_message);
+			}
+
+			if (stat.size !== content.length) {
+				this.throwError("integrity_mismatch", uri.path);
+			}
+
+			const res = await relay.rpc("FS.Rename", {
+				from: this.toServerPath(tempUri),
+				to: this.toServerPath(uri),
+				overwrite: true
+			});
+
+			if (!res.success) {
+				this.throwError(res.error_code, uri.path, res.error_message);
+			}
+		} catch (err) {
+			if (relay.isConnected()) {
+				relay.rpc("FS.Delete", { path: this.toServerPath(tempUri) }).catch(() => { });
+			}
+
+			throw err;
 		}
 
-		const truncateRes: RelayRPCResponseTruncate = await this.relay.rpc("FS.Truncate", {
-			path: this.toServerPath(uri),
-			size: content.length
+		this.recentWrites.set(uri.toString(), Date.now());
+		this.invalidate(tempUri);
+		this.invalidate(uri);
+	}
+
+	private async checkForConflict(relay: RelayClient, uri: vscode.Uri) {
+		const key = uri.toString();
+		const expected = this.versions.get(key);
+
+		if (this.forcedWrites.delete(key) || expected === undefined) {
+			return;
+		}
+
+		const modified = await this.remoteModified(relay, uri);
+
+		if (modified === undefined || modified === expected) {
+			return;
+		}
+
+		this.offerConflictResolution(uri);
+		this.throwError("file_conflict", uri.path);
+	}
+
+	private offerConflictResolution(uri: vscode.Uri) {
+		const key = uri.toString();
+
+		if (this.conflictWarnings.has(key)) {
+			return;
+		}
+
+		this.conflictWarnings.add(key);
+
+		vscode.window.showWarningMessage(`${uri.path} was changed on the server after you opened it, so your save was not applied.`, "Overwrite", "Compare", "Discard").then(async (choice) => {
+			this.conflictWarnings.delete(key);
+
+			const document = vscode.workspace.textDocuments.find((candidate) => candidate.uri.toString() === key);
+			const name = uri.path.substring(uri.path.lastIndexOf("/") + 1);
+
+			if (choice === "Overwrite" && document) {
+				this.forcedWrites.add(key);
+				await document.save();
+			}
+			else if (choice === "Compare") {
+				const serverVersion = uri.with({ scheme: SERVER_VERSION_SCHEME });
+
+				this.serverVersionEmitter.fire(serverVersion);
+				await vscode.commands.executeCommand("vscode.diff", serverVersion, uri, `${name} (Server) ↔ ${name} (Yours)`);
+			}
+			else if (choice === "Discard" && document) {
+				await vscode.window.showTextDocument(document);
+				await vscode.commands.executeCommand("workbench.action.files.revert");
+			}
 		});
+	}
+
+	async writeFile(uri: vscode.Uri, content: Uint8Array) {
+		const relay = this.relayFor(uri, true);
+
+		await this.checkForConflict(relay, uri);
+
+		const chunkSize = this.uploadChunkSize(relay);
+		const name = uri.path.substring(uri.path.lastIndexOf("/") + 1);
+		const atomic = relay.supports("FS.WriteAtomic") && vscode.workspace.getConfiguration("gmodRemote").get<boolean>("atomicSaves", true);
+
+		if (atomic && content.length <= chunkSize) {
+			await this.sendWrite(relay, uri, content, (hash) => relay.rpc("FS.WriteAtomic", {
+				path: this.toServerPath(uri),
+				data: Buffer.from(content).toString("base64"),
+				hash
+			}));
+		}
+		else if (atomic) {
+			await this.replaceThroughTemp(relay, uri, content, chunkSize, name);
+		}
+		else {
+			await this.upload(relay, uri, content, chunkSize, name);
+
+			const truncateRes = await relay.rpc("FS.Truncate", {
+				path: this.toServerPath(uri),
+				size: content.length
+			});
 
-		if (!truncateRes.success && truncateRes.error_code) {
-			this.throwError(truncateRes.error_code, uri.path);
+			if (!truncateRes.success && truncateRes.error_code) {
+				this.throwError(truncateRes.error_code, uri.path, truncateRes.error_message);
+			}
 		}
 
+		this.recordVersion(uri, await this.remoteModified(relay, uri));
 		this.refresh(uri);
 	}
 
-	async copy(sourceUri: vscode.Uri, destinationUri: vscode.Uri) {
-		if (!this.connected) {
-			this.throwError("not_connected", sourceUri.path);
+	private async remoteType(relay: RelayClient, uri: vscode.Uri) {
+		const res = await relay.rpc("FS.Stat", {
+			path: this.toServerPath(uri)
+		});
+
+		if (!res.success) {
+			if (res.error_code === "file_not_found") {
+				return null;
+			}
+
+			this.throwError(res.error_code, uri.path, res.error_message);
 		}
 
-		const res: RelayRPCResponseCopy = await this.relay.rpc("FS.Copy", {
+		return res.type === "directory" ? vscode.FileType.Directory : vscode.FileType.File;
+	}
+
+	private async listTree(relay: RelayClient, uri: vscode.Uri) {
+		const files: string[] = [];
+		const directories: string[] = [];
+		const pending = [this.toServerPath(uri)];
+
+		while (pending.length > 0) {
+			const directory = pending.shift()!;
+			const res = await relay.rpc("FS.ListFiles", { path: directory });
+
+			if (!res.success) {
+				this.throwError(res.error_code, directory, res.error_message);
+			}
+
+			for (const entry of res.entries!) {
+				const child = `${directory === "/" ? "" : directory}/${entry.name}`;
+
+				if (entry.type === "directory") {
+					directories.push(child);
+					pending.push(child);
+				}
+				else {
+					files.push(child);
+				}
+			}
+		}
+
+		return { files, directories };
+	}
+
+	private async runBatch(title: string, uri: vscode.Uri, steps: { path: string; run: () => Promise<RelayRPCResponse> }[]) {
+		const failures: string[] = [];
+
+		await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title,
+			cancellable: true
+		}, async (progress, token) => {
+			for (const [index, step] of steps.entries()) {
+				if (token.isCancellationRequested) {
+					failures.push(...steps.slice(index).map((remaining) => `${remaining.path} (cancelled)`));
+					break;
+				}
+
+				let res: RelayRPCResponse;
+
+				try {
+					res = await step.run();
+				} catch {
+					res = { success: false, error_code: "not_connected", requestId: -1 };
+				}
+
+				if (!res.success) {
+					failures.push(`${step.path} (${res.error_message || res.error_code || "unknown error"})`);
+				}
+
+				progress.report({ increment: 100 / steps.length, message: `${index + 1} of ${steps.length}` });
+			}
+		});
+
+		if (failures.length > 0) {
+			vscode.window.showErrorMessage(`${title} failed for ${failures.length} of ${steps.length} entries: ${failures.join(", ")}`);
+			this.throwError("partial_failure", uri.path, `${title} failed for ${failures.length} of ${steps.length} entries`);
+		}
+	}
+
+	async copy(sourceUri: vscode.Uri, destinationUri: vscode.Uri, options: { overwrite: boolean } = { overwrite: false }) {
+		const relay = this.relayFor(sourceUri);
+		const sourceType = await this.remoteType(relay, sourceUri);
+
+		if (sourceType === null) {
+			this.throwError("file_not_found", sourceUri.path);
+		}
+
+		if (await this.remoteType(relay, destinationUri) !== null) {
+			if (!options.overwrite) {
+				this.throwError("file_already_exists", destinationUri.path);
+			}
+
+			if (sourceType === vscode.FileType.Directory) {
+				await this.delete(destinationUri, { recursive: true });
+			}
+		}
+
+		if (sourceType === vscode.FileType.Directory) {
+			const from = this.toServerPath(sourceUri);
+			const to = this.toServerPath(destinationUri);
+			const target = (serverPath: string) => to + serverPath.substring(from.length);
+			const { files, directories } = await this.listTree(relay, sourceUri);
+
+			const mkdirRes = await relay.rpc("FS.Mkdir", { path: to });
+
+			if (!mkdirRes.success) {
+				this.throwError(mkdirRes.error_code, destinationUri.path, mkdirRes.error_message);
+			}
+
+			try {
+				await this.runBatch(`Copying ${sourceUri.path}`, destinationUri, [
+					...directories.map((directory) => ({ path: directory, run: () => relay.rpc("FS.Mkdir", { path: target(directory) }) })),
+					...files.map((file) => ({ path: file, run: () => relay.rpc("FS.Copy", { from: file, to: target(file), overwrite: false }) }))
+				]);
+			} finally {
+				this.invalidate(destinationUri, true);
+				this.refresh(destinationUri);
+			}
+
+			return;
+		}
+
+		const res = await relay.rpc("FS.Copy", {
 			from: this.toServerPath(sourceUri),
-			to: this.toServerPath(destinationUri)
+			to: this.toServerPath(destinationUri),
+			overwrite: options.overwrite
 		});
 
 		if (!res.success) {
-			this.throwError(res.error_code, sourceUri.path);
+			this.throwError(res.error_code, sourceUri.path, res.error_message);
 		}
 
+		this.invalidate(destinationUri, true);
 		this.refresh(destinationUri);
 	}
 
 	async createDirectory(uri: vscode.Uri) {
-		if (!this.connected) {
-			this.throwError("not_connected", uri.path);
-		}
-
-		const res: RelayRPCResponseMkdir = await this.relay.rpc("FS.Mkdir", {
+		const relay = this.relayFor(uri);
+		const res = await relay.rpc("FS.Mkdir", {
 			path: this.toServerPath(uri)
 		});
 
 		if (!res.success) {
-			this.throwError(res.error_code, uri.path);
+			this.throwError(res.error_code, uri.path, res.error_message);
 		}
 
+		this.invalidate(uri);
 		this.refresh(uri);
 	}
 
-	async delete(uri: vscode.Uri) {
-		if (!this.connected) {
-			this.throwError("not_connected", uri.path);
+	async delete(uri: vscode.Uri, options: { recursive: boolean } = { recursive: false }) {
+		const relay = this.relayFor(uri);
+
+		if (await this.remoteType(relay, uri) === vscode.FileType.Directory) {
+			if (!options.recursive) {
+				const listing = await relay.rpc("FS.ListFiles", { path: this.toServerPath(uri) });
+
+				if (!listing.success) {
+					this.throwError(listing.error_code, uri.path, listing.error_message);
+				}
+
+				if (listing.entries!.length > 0) {
+					this.throwError("directory_not_empty", uri.path);
+				}
+			}
+			else {
+				const { files, directories } = await this.listTree(relay, uri);
+
+				if (files.length + directories.length > 0) {
+					try {
+						await this.runBatch(`Deleting ${uri.path}`, uri, [...files, ...directories.reverse()].map((entry) => ({
+							path: entry,
+							run: () => relay.rpc("FS.Delete", { path: entry, recursive: false })
+						})));
+					} finally {
+						this.invalidate(uri, true);
+						this.refresh(uri);
+					}
+				}
+			}
 		}
 
-		const res: RelayRPCResponseDelete = await this.relay.rpc("FS.Delete", {
-			path: this.toServerPath(uri)
+		const res = await relay.rpc("FS.Delete", {
+			path: this.toServerPath(uri),
+			recursive: options.recursive
 		});
 
 		if (!res.success) {
-			this.throwError(res.error_code, uri.path);
+			this.throwError(res.error_code, uri.path, res.error_message);
 		}
 
+		this.invalidate(uri, true);
 		this.refresh(uri);
 	}
 
-	async rename(oldUri: vscode.Uri, newUri: vscode.Uri) {
-		if (!this.connected) {
-			this.throwError("not_connected", oldUri.path);
+	async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean } = { overwrite: false }) {
+		const relay = this.relayFor(oldUri);
+
+		if (!options.overwrite && await this.remoteType(relay, newUri) !== null) {
+			this.throwError("file_already_exists", newUri.path);
 		}
 
-		const res: RelayRPCResponseRename = await this.relay.rpc("FS.Rename", {
+		const res = await relay.rpc("FS.Rename", {
 			from: this.toServerPath(oldUri),
-			to: this.toServerPath(newUri)
+			to: this.toServerPath(newUri),
+			overwrite: options.overwrite
 		});
 
 		if (!res.success) {
-			this.throwError(res.error_code, newUri.path);
+			this.throwError(res.error_code, newUri.path, res.error_message);
 		}
 
+		this.invalidate(oldUri, true);
+		this.invalidate(newUri, true);
 		this.refresh(newUri);
 	}
 
 	setupWorkspace(server: Server) {
-		const uri = vscode.Uri.parse("gmod:/");
-		const name = this.relay.name() || server.name;
+		const uri = remoteUri(server.name);
+		const relay = this.relays.get(server.name);
+		const folders = vscode.workspace.workspaceFolders || [];
 
-		vscode.workspace.updateWorkspaceFolders(vscode.workspace.workspaceFolders?.length || 0, 0, {
-			name,
+		if (folders.some((folder) => folder.uri.toString() === uri.toString())) {
+			return;
+		}
+
+		vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+			name: relay?.name() || server.name,
 			uri
 		});
 	}
 
+	private activeConnections() {
+		const connections = this.context.workspaceState.get<ActiveConnection[] | undefined>("gmodRemote.activeConnections") || [];
+		const legacyConnection = this.context.workspaceState.get<ActiveConnection | undefined>("gmodRemote.activeConnection");
+
+		if (legacyConnection && legacyConnection.server && !connections.some((connection) => connection.server.name === legacyConnection.server.name)) {
+			connections.push(legacyConnection);
+		}
+
+		return connections;
+	}
+
+	private async storeActiveConnections(connections: ActiveConnection[]) {
+		await this.context.workspaceState.update("gmodRemote.activeConnections", connections);
+		await this.context.workspaceState.update("gmodRemote.activeConnection", undefined);
+	}
+
 	async connect(server: Server, isRestore = false) {
-		await this.context.workspaceState.update("gmodRemote.activeConnection", {
-			server,
-			connectionTime: Date.now()
-		});
+		const url = serverUrl(server);
+
+		if (!url) {
+			vscode.window.showErrorMessage(`${server.name} uses direct mode but has no listener URL`);
+			return;
+		}
+
+		const existing = this.relays.get(server.name);
+
+		if (existing && (existing.isConnected() || existing.isReconnecting())) {
+			vscode.window.showInformationMessage(`Already connected to ${server.name}`);
+			return;
+		}
+
+		const connections = this.activeConnections().filter((connection) => connection.server.name !== server.name);
+
+		await this.storeActiveConnections([...connections, { server }]);
 
 		if (!isRestore) {
 			await this.context.globalState.update("gmodRemote.pendingConnection", {
@@ -287,34 +874,45 @@ export class RemoteFileSystemProvider implements vscode.FileSystemProvider {
 			});
 		}
 
-		this.relay.connect(server.relay, server.address, server.password, server.encryptionKey).then(() => {
+		const relay = this.relays.getOrCreate(server.name);
+
+		relay.connect(url, server.address, server.password, server.encryptionKey, server.proxy || null).then(() => {
 			this.setupWorkspace(server);
 			if (!isRestore) {
 				this.context.globalState.update("gmodRemote.pendingConnection", undefined);
 			}
-		});
+		}).catch(() => { });
 	}
 
 	async restoreConnection() {
-		let savedConnection = this.context.workspaceState.get<ActiveConnection | undefined>("gmodRemote.activeConnection");
-
-		if (!savedConnection || !savedConnection.server) {
-			const pendingConnection = this.context.globalState.get<ActiveConnection | undefined>("gmodRemote.pendingConnection");
-			if (pendingConnection && pendingConnection.server) {
-				await this.context.workspaceState.update("gmodRemote.activeConnection", pendingConnection);
-				await this.context.globalState.update("gmodRemote.pendingConnection", undefined);
-				savedConnection = pendingConnection;
-			} else {
-				return;
+		const savedConnections = this.activeConnections();
+		const pendingConnection = this.context.globalState.get<ActiveConnection | undefined>("gmodRemote.pendingConnection");
+
+		if (pendingConnection && pendingConnection.server) {
+			await this.context.globalState.update("gmodRemote.pendingConnection", undefined);
+
+			if (!savedConnections.some((connection) => connection.server.name === pendingConnection.server.name)) {
+				savedConnections.push(pendingConnection);
 			}
 		}
 
-		this.connect(savedConnection.server, true);
+		for (const connection of savedConnections) {
+			await this.connect(connection.server, true);
+		}
+	}
+
+	disconnect(serverName: string) {
+		const relay = this.relays.get(serverName);
+
+		if (relay) {
+			relay.disconnect();
+			this.relays.remove(serverName);
+		}
+
+		this.storeActiveConnections(this.activeConnections().filter((connection) => connection.server.name !== serverName));
 	}
 
-	disconnect() {
-		this.relay.disconnect();
-		this.connected = false;
-		this.context.workspaceState.update("gmodRemote.activeConnection", undefined);
+	connectedServers() {
+		return this.relays.all().map((relay) => relay.serverKey);
 	}
 }
@@ -1,9 +1,9 @@
-import { RelayClient } from "../modules/relay";
+import { RelayPool } from "../modules/relayPool";
 
-export function useRelay() {
-	if (!globalThis.gmodRemoteRelay) {
-		globalThis.gmodRemoteRelay = new RelayClient();
+export function useRelays() {
+	if (!globalThis.gmodRemoteRelays) {
+		globalThis.gmodRemoteRelays = new RelayPool();
 	}
 
-	return globalThis.gmodRemoteRelay;
-}
\ No newline at end of file
+	return globalThis.gmodRemoteRelays;
+}
@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import { RelayClient } from "../modules/relay";
+import { RelayPool } from "../modules/relayPool";
+import { RemoteFileChange, RemoteFileChangeType } from "../types";
+
+const CHANGE_TYPES: Record<RemoteFileChangeType, vscode.FileChangeType> = {
+	created: vscode.FileChangeType.Created,
+	changed: vscode.FileChangeType.Changed,
+	deleted: vscode.FileChangeType.Deleted
+};
+
+type WatchRegistration = {
+	uri: vscode.Uri;
+	recursive: boolean;
+	excludes: string[];
+	relay: RelayClient | null;
+	watchId: string | null;
+	disposed: boolean;
+}
+
+export class RemoteWatcher {
+	private registrations = new Set<WatchRegistration>();
+
+	constructor(private relays: RelayPool, private onChange: (events: vscode.FileChangeEvent[]) => void) {
+		for (const relay of this.relays.all()) {
+			this.attach(relay);
+		}
+
+		this.relays.on("added", (relay: RelayClient) => this.attach(relay));
+	}
+
+	watch(uri: vscode.Uri, options: { recursive: boolean; excludes: string[] }): vscode.Disposable {
+		const registration: WatchRegistration = {
+			uri,
+			recursive: options.recursive,
+			excludes: options.excludes,
+			relay: null,
+			watchId: null,
+			disposed: false
+		};
+
+		this.registrations.add(registration);
+		this.register(registration);
+
+		return new vscode.Disposable(() => this.unwatch(registration));
+	}
+
+	private attach(relay: RelayClient) {
+		relay.on("fileChanges", (watchId: string, changes: RemoteFileChange[]) => this.receive(relay, watchId, changes));
+
+		relay.on("connected", (resumed: boolean) => {
+			for (const registration of this.registrations) {
+				if (this.relays.forUri(registration.uri) === relay && !(resumed && registration.relay === relay && registration.watchId)) {
+					this.register(registration);
+				}
+			}
+		});
+	}
+
+	private async register(registration: WatchRegistration) {
+		const relay = this.relays.forUri(registration.uri);
+
+		registration.relay = null;
+		registration.watchId = null;
+
+		if (!relay || !relay.isConnected() || !relay.supports("FS.Watch")) {
+			return;
+		}
+
+		let res;
+
+		try {
+			res = await relay.rpc("FS.Watch", {
+				path: registration.uri.path,
+				recursive: registration.recursive,
+				excludes: registration.excludes
+			});
+		} catch {
+			return;
+		}
+
+		if (!res.success || !res.watchId) {
+			console.error(`Failed to watch ${registration.uri.toString()}:`, res.error_code);
+			return;
+		}
+
+		if (registration.disposed) {
+			relay.rpc("FS.Unwatch", { watchId: res.watchId }).catch(() => { });
+			return;
+		}
+
+		registration.relay = relay;
+		registration.watchId = res.watchId;
+	}
+
+	private unwatch(registration: WatchRegistration) {
+		registration.disposed = true;
+		this.registrations.delete(registration);
+
+		if (registration.relay && registration.watchId && registration.relay.isConnected()) {
+			registration.relay.rpc("FS.Unwatch", { watchId: registration.watchId }).catch(() => { });
+		}
+	}
+
+	private receive(relay: RelayClient, watchId: string, changes: RemoteFileChange[]) {
+		const registration = [...this.registrations].find((candidate) => candidate.relay === relay && candidate.watchId === watchId);
+
+		if (!registration || changes.length === 0) {
+			return;
+		}
+
+		this.onChange(changes.map((change) => ({
+			type: CHANGE_TYPES[change.type],
+			uri: registration.uri.with({ path: change.path })
+		})));
+	}
+}
@@ -1,9 +1,11 @@
 import { RelayClient } from "../modules/relay";
-import type { RelayRPCResponseSearch, SearchChunk, SearchOptions } from "../types";
+import { RelayPool } from "../modules/relayPool";
+import { remoteUri } from "./fileSystemProvider";
+import type { SearchChunk, SearchOptions } from "../types";
 
-export function useSearchProvider(relay: RelayClient) {
+export function useSearchProvider(relays: RelayPool) {
 	if (!globalThis.gmodSearchProvider) {
-		globalThis.gmodSearchProvider = new SearchProvider(relay);
+		globalThis.gmodSearchProvider = new SearchProvider(relays);
 	}
 
 	return globalThis.gmodSearchProvider;
@@ -11,48 +13,140 @@ export function useSearchProvider(relay: RelayClient) {
 
 export class SearchProvider {
 	private searching: boolean = false;
+	private generation = 0;
+	private starting = 0;
+	private activeStreams = new Map<RelayClient, number>();
 	private onStart?: () => void;
 	private onResultStream?: (chunk: SearchChunk[]) => void;
 	private onEnd?: () => void;
 
-	constructor(private relay: RelayClient) {
-		this.relay = relay;
+	constructor(private relays: RelayPool) {
+		this.relays = relays;
 	}
 
 	async search(query: string, options: SearchOptions) {
-		const res: RelayRPCResponseSearch = await this.relay.rpc("FS.Search", {
-			query,
-			caseSensitive: options.caseSensitive,
-			useRegex: options.useRegex,
-			wholeWord: options.wholeWord,
-			includeFiles: options.includeFiles || "",
-			excludeFiles: options.excludeFiles || ""
-		});
+		this.stop();
+
+		const targets = this.relays.connected();
+
+		if (targets.length === 0) {
+			throw new Error("Not connected to any server.");
+		}
+
+		const searchable = targets.filter((relay) => relay.supports("FS.Search"));
+
+		if (searchable.length === 0) {
+			throw new Error("This server does not support searching.");
+		}
+
+		const search = this.generation;
+
+		this.starting = searchable.length;
+
+		const started = await Promise.all(searchable.map(async (relay) => {
+			const res = await relay.rpc("FS.Search", {
+				query,
+				caseSensitive: options.caseSensitive,
+				useRegex: options.useRegex,
+				wholeWord: options.wholeWord,
+				includeFiles: options.includeFiles || "",
+				excludeFiles: options.excludeFiles || ""
+			});
+
+			if (search !== this.generation) {
+				if (res.success) {
+					relay.stopStream(res.requestId);
+				}
+
+				return false;
+			}
+
+			this.starting--;
+
+			if (!res.success) {
+				this.checkEnded();
+				return false;
+			}
 
-		if (!res.success) {
+			if (!this.searching) {
+				this.searching = true;
+				this.onStart?.();
+			}
+
+			this.follow(relay, res.requestId);
+
+			return true;
+		}));
+
+		if (search === this.generation && !started.includes(true)) {
 			throw new Error("An error occurred while searching for files.");
 		}
+	}
 
-		this.searching = true;
-		this.onStart?.();
+	private follow(relay: RelayClient, requestId: number) {
+		this.activeStreams.set(relay, requestId);
 
-		this.relay.stream(res.requestId, (chunk: Buffer) => {
+		relay.stream(requestId, (chunk: Buffer) => {
 			let chunkString = chunk.toString("utf8");
 			let searchResults: SearchChunk[] | null = null;
 
 			try {
 				if (searchResults = JSON.parse(chunkString)) {
-					this.onResultStream?.(searchResults);
+					this.onResultStream?.(searchResults.map((result) => ({
+						...result,
+						file: remoteUri(relay.serverKey, result.file).toString()
+					})));
 				}
 			}
 			catch (error) {
 			}
 		}, () => {
+			this.streamEnded(relay, requestId);
+		}, (errorCode: string) => {
+			console.error(`Search stream for ${relay.name()} failed:`, errorCode);
+
+			this.streamEnded(relay, requestId);
+		});
+	}
+
+	private streamEnded(relay: RelayClient, requestId: number) {
+		if (this.activeStreams.get(relay) !== requestId) {
+			return;
+		}
+
+		this.activeStreams.delete(relay);
+		this.checkEnded();
+	}
+
+	private checkEnded() {
+		if (this.searching && this.starting === 0 && this.activeStreams.size === 0) {
 			this.searching = false;
 			this.onEnd?.();
-		});
+		}
+	}
 
-		return res.requestId;
+	stop() {
+		this.generation++;
+		this.starting = 0;
+
+		for (const [relay, requestId] of this.activeStreams) {
+			relay.stopStream(requestId);
+		}
+
+		this.activeStreams.clear();
+		this.searching = false;
+	}
+
+	pause() {
+		for (const [relay, requestId] of this.activeStreams) {
+			relay.pauseStream(requestId);
+		}
+	}
+
+	resume() {
+		for (const [relay, requestId] of this.activeStreams) {
+			relay.resumeStream(requestId);
+		}
 	}
 
 	isSearching() {
@@ -70,4 +164,4 @@ export class SearchProvider {
 	end(callback: () => void) {
 		this.onEnd = callback;
 	}
-}
\ No newline at end of file
+}
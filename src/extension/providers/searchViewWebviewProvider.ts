@@ -1,14 +1,12 @@
 import * as vscode from "vscode";
 import { SearchChunk, SearchOptions, FileResult } from "../types";
 import { useSearchProvider } from "./searchProvider";
-import { useRelay } from "./relayProvider";
-import { RelayClient } from "../modules/relay";
+import { useRelays } from "./relayProvider";
 
 export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
 	public static readonly viewType = "gmod-remote.search";
 	private _view?: vscode.WebviewView;
 	private searchProvider: ReturnType<typeof useSearchProvider>;
-	private relay: RelayClient;
 	private searchOptions: SearchOptions = {
 		caseSensitive: false,
 		wholeWord: false,
@@ -24,13 +22,11 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 	private updateTimeout?: NodeJS.Timeout;
 	private searchEndTimeout?: NodeJS.Timeout;
 	private disposed: boolean = false;
-	private lastSearchRequestId?: number;
 
 	constructor(
 		private readonly _context: vscode.ExtensionContext
 	) {
-		this.relay = useRelay();
-		this.searchProvider = useSearchProvider(this.relay);
+		this.searchProvider = useSearchProvider(useRelays());
 		this.setupSearchProvider();
 	}
 
@@ -57,10 +53,7 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 					if (this.currentQuery) {
 						await this.triggerSearch();
 					} else {
-						if (this.lastSearchRequestId !== undefined) {
-							this.relay.stopStream(this.lastSearchRequestId);
-							this.lastSearchRequestId = undefined;
-						}
+						this.searchProvider.stop();
 						if (this.updateTimeout) {
 							clearTimeout(this.updateTimeout);
 							this.updateTimeout = undefined;
@@ -105,7 +98,7 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 				case "openFile":
 					try {
 						const chunk: SearchChunk = data.chunk;
-						const uri = vscode.Uri.parse(`gmod:${chunk.file}`);
+						const uri = vscode.Uri.parse(chunk.file);
 						const document = await vscode.workspace.openTextDocument(uri);
 						const existingEditor = vscode.window.visibleTextEditors.find(
 							editor => editor.document.uri.toString() === uri.toString()
@@ -137,7 +130,7 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 				case "openFileHeader":
 					try {
 						const filePath: string = data.file;
-						const uri = vscode.Uri.parse(`gmod:${filePath}`);
+						const uri = vscode.Uri.parse(filePath);
 						const existingEditor = vscode.window.visibleTextEditors.find(
 							editor => editor.document.uri.toString() === uri.toString()
 						);
@@ -189,9 +182,13 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 
 		webviewView.onDidChangeVisibility(() => {
 			if (webviewView.visible) {
+				this.searchProvider.resume();
+
 				setTimeout(() => {
 					webviewView.webview.postMessage({ type: "focus" });
 				}, 100);
+			} else {
+				this.searchProvider.pause();
 			}
 		});
 	}
@@ -214,12 +211,8 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 			return;
 		}
 
-		if (this.lastSearchRequestId !== undefined) {
-			this.relay.stopStream(this.lastSearchRequestId);
-		}
-
 		try {
-			this.lastSearchRequestId = await this.searchProvider.search(this.currentQuery, this.searchOptions);
+			await this.searchProvider.search(this.currentQuery, this.searchOptions);
 		} catch (error) {
 			if (!this.disposed) {
 				const errorMessage = error instanceof Error ? error.message : String(error);
@@ -395,7 +388,7 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 	}
 
 	private async replaceMatch(chunk: SearchChunk, replaceText: string) {
-		const uri = vscode.Uri.parse(`gmod:${chunk.file}`);
+		const uri = vscode.Uri.parse(chunk.file);
 		const document = await vscode.workspace.openTextDocument(uri);
 		const existingEditor = vscode.window.visibleTextEditors.find(
 			editor => editor.document.uri.toString() === uri.toString()
@@ -449,7 +442,7 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 		const chunksToRemove: SearchChunk[] = [];
 
 		for (const [file, chunks] of fileGroups.entries()) {
-			const uri = vscode.Uri.parse(`gmod:${file}`);
+			const uri = vscode.Uri.parse(file);
 			const document = await vscode.workspace.openTextDocument(uri);
 			const existingEditor = vscode.window.visibleTextEditors.find(
 				editor => editor.document.uri.toString() === uri.toString()
@@ -515,7 +508,7 @@ export class SearchViewProvider implements vscode.WebviewViewProvider, vscode.Di
 			return;
 		}
 
-		const uri = vscode.Uri.parse(`gmod:${file}`);
+		const uri = vscode.Uri.parse(file);
 		const document = await vscode.workspace.openTextDocument(uri);
 		const existingEditor = vscode.window.visibleTextEditors.find(
 			editor => editor.document.uri.toString() === uri.toString()
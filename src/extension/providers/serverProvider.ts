@@ -8,6 +8,35 @@ export function getServers() {
 	return servers;
 }
 
+export function serverUrl(server: Server) {
+	return server.mode === "direct" ? server.listener : server.relay;
+}
+
+export function validateServerName(name: string, servers: Server[]) {
+	if (!name.trim()) {
+		return "The name cannot be empty";
+	}
+
+	// The name is used as the authority of gmod:// URIs
+	if (/[/\\?#@:%]/.test(name)) {
+		return "The name cannot contain / \\ ? # @ : or %";
+	}
+
+	if (servers.some((server) => server.name.toLowerCase() === name.toLowerCase())) {
+		return `A server named ${name} already exists`;
+	}
+
+	return null;
+}
+
+export function describeServer(server: Server) {
+	if (server.mode === "direct") {
+		return `${server.address} direct via ${server.listener || "an unset listener"}`;
+	}
+
+	return `${server.address} via ${server.relay}`;
+}
+
 export function storeNewServer(servers: Server[], server: Server) {
 	const config = vscode.workspace.getConfiguration();
 	const newServers = [...servers, server];
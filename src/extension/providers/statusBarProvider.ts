@@ -1,39 +1,131 @@
 import * as vscode from "vscode";
 import { RelayClient } from "../modules/relay";
+import { RelayPool } from "../modules/relayPool";
 
-export function useStatusBar(context: vscode.ExtensionContext, relay: RelayClient) {
-	const statusBar = new StatusBar(relay);
+export function useStatusBar(context: vscode.ExtensionContext, relays: RelayPool) {
+	const idle = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+	const statusBars = new Map<RelayClient, StatusBar>();
 
-	statusBar.show();
-	context.subscriptions.push(statusBar.get());
+	idle.command = "gmod-remote.connect";
+	idle.text = "$(debug-disconnect) GMod Remote: Connect to Server";
+	idle.tooltip = "Click to connect";
+	idle.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground");
+
+	const updateIdle = () => {
+		if (statusBars.size === 0) {
+			idle.show();
+		} else {
+			idle.hide();
+		}
+	};
+
+	relays.on("added", (relay: RelayClient) => {
+		const statusBar = new StatusBar(relay);
+
+		statusBar.show();
+		statusBars.set(relay, statusBar);
+		updateIdle();
+	});
+
+	relays.on("removed", (relay: RelayClient) => {
+		statusBars.get(relay)?.dispose();
+		statusBars.delete(relay);
+		updateIdle();
+	});
+
+	updateIdle();
+
+	context.subscriptions.push(idle, new vscode.Disposable(() => {
+		for (const statusBar of statusBars.values()) {
+			statusBar.dispose();
+		}
+	}));
 }
 
 export class StatusBar {
 	private status: vscode.StatusBarItem;
+	private countdown?: NodeJS.Timeout;
+	private disposed = false;
 
 	constructor(private relay: RelayClient) {
 		this.status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
 		this.status.command = "gmod-remote.connect";
-		this.update("$(debug-disconnect) GMod Remote: Connect to Server", "Click to connect", new vscode.ThemeColor("statusBarItem.errorBackground"));
+		this.update(`$(remote) GMod Remote: ${this.relay.name()}`, "Connecting to server...", undefined);
 
 		this.relay.on("connecting", () => {
-			this.update("$(remote) GMod Remote: Connecting...", "Connecting to server...", undefined);
+			this.stopCountdown();
+			this.update(`$(remote) GMod Remote: Connecting to ${this.relay.name()}...`, "Connecting to server...", undefined);
 		});
 
 		this.relay.on("connected", () => {
-			this.update(`$(remote) GMod Remote: ${this.relay.name() || "Server"}`, `Connected to server`, undefined);
+			this.stopCountdown();
+			this.status.command = "gmod-remote.connect";
+			this.update(`$(remote) GMod Remote: ${this.relay.name()}`, `Connected to ${this.relay.name()}`, undefined);
 		});
 
 		this.relay.on("disconnected", () => {
-			this.update("$(debug-disconnect) GMod Remote: Disconnected", "Click to connect", new vscode.ThemeColor("statusBarItem.errorBackground"));
+			this.stopCountdown();
+			this.status.command = "gmod-remote.connect";
+			this.update(`$(debug-disconnect) GMod Remote: ${this.relay.name()} disconnected`, "Click to connect", new vscode.ThemeColor("statusBarItem.errorBackground"));
+		});
+
+		this.relay.on("latency", (rtt: number) => {
+			if (!this.countdown && this.relay.isConnected()) {
+				this.update(`$(remote) GMod Remote: ${this.relay.name()}`, `Connected to ${this.relay.name()} (latency ${rtt} ms)`, undefined);
+			}
+		});
+
+		this.relay.on("reconnecting", (attempt: number, delay: number) => {
+			this.startCountdown(attempt, delay);
+		});
+
+		this.relay.on("gaveUp", () => {
+			this.stopCountdown();
+			this.status.command = "gmod-remote.connect";
+			this.update(`$(debug-disconnect) GMod Remote: ${this.relay.name()} connection failed`, "Stopped reconnecting, click to connect", new vscode.ThemeColor("statusBarItem.errorBackground"));
 		});
 	}
 
+	private startCountdown(attempt: number, delay: number) {
+		this.stopCountdown();
+
+		if (this.disposed) {
+			return;
+		}
+
+		const retryAt = Date.now() + delay;
+		const maxAttempts = this.relay.maxReconnectAttempts();
+		const attemptText = maxAttempts > 0 ? `${attempt}/${maxAttempts}` : `${attempt}`;
+		const tooltip = `Reconnecting to ${this.relay.name()} (attempt ${attemptText}), click to retry now or stop`;
+
+		this.status.command = "gmod-remote.reconnectActions";
+
+		const render = () => {
+			const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+
+			this.update(`$(sync~spin) GMod Remote: ${this.relay.name()} reconnecting in ${seconds}s (${attemptText})`, tooltip, new vscode.ThemeColor("statusBarItem.warningBackground"));
+		};
+
+		render();
+		this.countdown = setInterval(render, 1000);
+	}
+
+	private stopCountdown() {
+		if (this.countdown) {
+			clearInterval(this.countdown);
+			this.countdown = undefined;
+		}
+	}
+
 	show() {
 		this.status.show();
 	}
 
 	update(text: string, tooltip: string, backgroundColor: vscode.ThemeColor | undefined) {
+		if (this.disposed) {
+			return;
+		}
+
 		this.status.text = text;
 		this.status.tooltip = tooltip;
 		this.status.backgroundColor = backgroundColor;
@@ -42,4 +134,10 @@ export class StatusBar {
 	get() {
 		return this.status;
 	}
+
+	dispose() {
+		this.disposed = true;
+		this.stopCountdown();
+		this.status.dispose();
+	}
 }
\ No newline at end of file
@@ -0,0 +1,479 @@
+import * as vscode from "vscode";
+import fs from "fs";
+import path from "path";
+import { globToRegExp, matchesAny } from "../modules/glob";
+import { RelayPool } from "../modules/relayPool";
+import { isSafeEntryName, nextBaseline, planSync, scanLocal, unsyncedMatches } from "../modules/sync";
+import { RemoteFileSystemProvider, remoteUri, useRemoteFS } from "./fileSystemProvider";
+import { getServers } from "./serverProvider";
+import { SyncAction, SyncActionType, SyncBaseline, SyncMapping, SyncMode, SyncTree } from "../types";
+
+declare global {
+	var gmodFolderSync: FolderSync;
+}
+
+const DEFAULT_IGNORE = [".git/**", "**/.DS_Store"];
+
+const ACTION_LABELS: Record<SyncActionType, string> = {
+	upload: "$(cloud-upload) Upload",
+	download: "$(cloud-download) Download",
+	deleteLocal: "$(trash) Delete locally",
+	deleteRemote: "$(trash) Delete on server",
+	conflict: "$(warning) Changed on both sides"
+};
+
+const MODE_LABELS: Record<SyncMode, string> = {
+	"push": "Push local changes to the server",
+	"pull": "Pull server changes into the local folder",
+	"two-way": "Sync changes in both directions"
+};
+
+export type SyncPlan = {
+	mapping: SyncMapping;
+	actions: SyncAction[];
+};
+
+export type SyncResult = {
+	applied: number;
+	conflicts: number;
+	failed: { path: string; message: string }[];
+};
+
+export function useSync(relays: RelayPool, context: vscode.ExtensionContext) {
+	if (!globalThis.gmodFolderSync) {
+		globalThis.gmodFolderSync = new FolderSync(relays, useRemoteFS(relays, context), context);
+	}
+
+	return globalThis.gmodFolderSync;
+}
+
+export function getSyncMappings() {
+	return vscode.workspace.getConfiguration().get<SyncMapping[] | undefined>("gmodRemote.sync.mappings") || [];
+}
+
+export function storeSyncMapping(mapping: SyncMapping) {
+	const target = vscode.workspace.workspaceFolders?.length ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+
+	return vscode.workspace.getConfiguration().update("gmodRemote.sync.mappings", [...getSyncMappings(), mapping], target);
+}
+
+export function remoteRoot(mapping: SyncMapping) {
+	const normalized = path.posix.normalize("/" + mapping.remote);
+
+	return normalized.length > 1 ? normalized.replace(/\/$/, "") : normalized;
+}
+
+export function localRoot(mapping: SyncMapping) {
+	if (path.isAbsolute(mapping.local)) {
+		return mapping.local;
+	}
+
+	const folder = vscode.workspace.workspaceFolders?.find((candidate) => candidate.uri.scheme === "file");
+
+	return path.resolve(folder ? folder.uri.fsPath : "", mapping.local);
+}
+
+export class FolderSync implements vscode.Disposable {
+	private saveListener: vscode.Disposable;
+
+	constructor(private relays: RelayPool, private remoteFS: RemoteFileSystemProvider, private context: vscode.ExtensionContext) {
+		this.saveListener = vscode.workspace.onDidSaveTextDocument((document) => this.syncSavedDocument(document));
+	}
+
+	private ignorePatterns(mapping: SyncMapping) {
+		const configured = vscode.workspace.getConfiguration("gmodRemote").get<string[]>("sync.ignore", DEFAULT_IGNORE);
+
+		return [...configured, ...(mapping.ignore || [])].map(globToRegExp);
+	}
+
+	private baselineKey(mapping: SyncMapping) {
+		return `gmodRemote.sync.baseline:${mapping.server}:${remoteRoot(mapping)}:${localRoot(mapping)}`;
+	}
+
+	private localPathFor(mapping: SyncMapping, relative: string) {
+		const root = localRoot(mapping);
+		const resolved = path.resolve(root, ...relative.split("/"));
+		const inside = path.relative(root, resolved);
+
+		if (!inside || inside.startsWith("..") || path.isAbsolute(inside)) {
+			throw new Error(`${relative} is outside the sync folder`);
+		}
+
+		return resolved;
+	}
+
+	private remoteUriFor(mapping: SyncMapping, relative: string) {
+		return remoteUri(mapping.server, path.posix.join(remoteRoot(mapping), relative));
+	}
+
+	private async scanRemote(mapping: SyncMapping, ignore: RegExp[]): Promise<SyncTree> {
+		const relay = this.relays.forUri(remoteUri(mapping.server));
+		const root = remoteRoot(mapping);
+		const tree: SyncTree = new Map();
+
+		if (!relay || !relay.isConnected()) {
+			throw new Error(`Not connected to ${mapping.server}`);
+		}
+
+		const walk = async (relative: string) => {
+			const directory = path.posix.join(root, relative);
+			const res = await relay.rpc("FS.ListFiles", { path: directory });
+
+			if (!res.success) {
+				if (!relative && res.error_code === "file_not_found") {
+					return;
+				}
+
+				throw new Error(`Failed to list ${directory} on ${mapping.server}: ${res.error_message || res.error_code}`);
+			}
+
+			for (const entry of res.entries || []) {
+				// A name like ".." would let the server write outside the local folder
+				if (!isSafeEntryName(entry.name)) {
+					console.warn(`Skipping ${directory} entry with an unsafe name: ${entry.name}`);
+					continue;
+				}
+
+				const child = relative ? `${relative}/${entry.name}` : entry.name;
+
+				if (matchesAny(ignore, child)) {
+					continue;
+				}
+
+				if (entry.type === "directory") {
+					await walk(child);
+				}
+				else {
+					tree.set(child, { size: entry.size || 0, modified: entry.lastModified });
+				}
+			}
+		};
+
+		await walk("");
+
+		return tree;
+	}
+
+	private async scan(mapping: SyncMapping) {
+		const ignore = this.ignorePatterns(mapping);
+		const root = localRoot(mapping);
+
+		await fs.promises.mkdir(root, { recursive: true });
+
+		const local = await scanLocal(root, ignore);
+		const remote = await this.scanRemote(mapping, ignore);
+
+		return { local, remote };
+	}
+
+	private async ensureRemoteDirectory(server: string, directory: string): Promise<void> {
+		if (directory === "/") {
+			return;
+		}
+
+		try {
+			await this.remoteFS.stat(remoteUri(server, directory));
+			return;
+		} catch { }
+
+		await this.ensureRemoteDirectory(server, path.posix.dirname(directory));
+		await this.remoteFS.createDirectory(remoteUri(server, directory)).catch(() => { });
+	}
+
+	private async recordIdenticalFiles(mapping: SyncMapping, local: SyncTree, remote: SyncTree, baseline: SyncBaseline) {
+		const identical: SyncBaseline = {};
+
+		for (const filePath of unsyncedMatches(local, remote, baseline)) {
+			try {
+				const [localContents, remoteContents] = await Promise.all([
+					fs.promises.readFile(this.localPathFor(mapping, filePath)),
+					this.remoteFS.readFile(this.remoteUriFor(mapping, filePath))
+				]);
+
+				if (Buffer.from(remoteContents).equals(localContents)) {
+					identical[filePath] = { local: local.get(filePath)!.modified, remote: remote.get(filePath)!.modified };
+				}
+			} catch (err) {
+				console.warn(`Failed to compare ${filePath} for ${mapping.server}:`, err);
+			}
+		}
+
+		if (Object.keys(identical).length === 0) {
+			return baseline;
+		}
+
+		const updated = { ...baseline, ...identical };
+
+		await this.context.workspaceState.update(this.baselineKey(mapping), updated);
+
+		return updated;
+	}
+
+	async plan(mapping: SyncMapping): Promise<SyncPlan> {
+		const { local, remote } = await this.scan(mapping);
+		const stored = this.context.workspaceState.get<SyncBaseline>(this.baselineKey(mapping), {});
+		const baseline = await this.recordIdenticalFiles(mapping, local, remote, stored);
+
+		return { mapping, actions: planSync(local, remote, mapping.mode, baseline) };
+	}
+
+	private async applyAction(mapping: SyncMapping, action: SyncAction) {
+		const localFile = this.localPathFor(mapping, action.path);
+		const uri = this.remoteUriFor(mapping, action.path);
+
+		switch (action.type) {
+			case "upload":
+				await this.ensureRemoteDirectory(mapping.server, path.posix.dirname(uri.path));
+				await this.remoteFS.writeFile(uri, await fs.promises.readFile(localFile));
+				break;
+			case "download": {
+				const contents = await this.remoteFS.readFile(uri);
+
+				await fs.promises.mkdir(path.dirname(localFile), { recursive: true });
+				await fs.promises.writeFile(localFile, contents);
+				break;
+			}
+			case "deleteLocal":
+				await fs.promises.rm(localFile, { force: true });
+				break;
+			case "deleteRemote":
+				await this.remoteFS.delete(uri, { recursive: false });
+				break;
+		}
+	}
+
+	async apply(plan: SyncPlan, selected: SyncAction[] = plan.actions, progress?: vscode.Progress<{ message?: string; increment?: number }>): Promise<SyncResult> {
+		const { mapping } = plan;
+		const runnable = selected.filter((action) => action.type !== "conflict");
+		const resolved = new Set(runnable.map((action) => action.path));
+		const skipped = new Set(plan.actions.filter((action) => !resolved.has(action.path)).map((action) => action.path));
+		const result: SyncResult = { applied: 0, conflicts: plan.actions.filter((action) => action.type === "conflict" && !resolved.has(action.path)).length, failed: [] };
+
+		for (const action of runnable) {
+			progress?.report({ message: action.path, increment: 100 / runnable.length });
+
+			try {
+				await this.applyAction(mapping, action);
+				result.applied++;
+			} catch (err) {
+				skipped.add(action.path);
+				result.failed.push({ path: action.path, message: (err as Error).message });
+			}
+		}
+
+		const key = this.baselineKey(mapping);
+		const { local, remote } = await this.scan(mapping);
+
+		await this.context.workspaceState.update(key, nextBaseline(local, remote, this.context.workspaceState.get<SyncBaseline>(key, {}), skipped));
+
+		return result;
+	}
+
+	private async pickMapping() {
+		const mappings = getSyncMappings();
+
+		if (mappings.length === 0) {
+			const choice = await vscode.window.showInformationMessage("No sync folders are configured.", "Add Sync Folder");
+
+			if (choice) {
+				await this.addMapping();
+			}
+
+			return undefined;
+		}
+
+		if (mappings.length === 1) {
+			return mappings[0];
+		}
+
+		const picked = await vscode.window.showQuickPick(mappings.map((mapping) => ({
+			label: `${path.basename(localRoot(mapping))} ↔ ${mapping.server}:${remoteRoot(mapping)}`,
+			description: mapping.mode,
+			mapping
+		})), { placeHolder: "Select a folder to sync" });
+
+		return picked?.mapping;
+	}
+
+	async sync() {
+		const mapping = await this.pickMapping();
+
+		if (!mapping) {
+			return;
+		}
+
+		const title = `${path.basename(localRoot(mapping))} ↔ ${mapping.server}:${remoteRoot(mapping)}`;
+		let plan: SyncPlan;
+
+		try {
+			plan = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Comparing ${title}` }, () => this.plan(mapping));
+		} catch (err) {
+			vscode.window.showErrorMessage(`Failed to compare ${title}: ${(err as Error).message}`);
+			return;
+		}
+
+		if (plan.actions.length === 0) {
+			vscode.window.showInformationMessage(`${title} is up to date.`);
+			return;
+		}
+
+		const conflicts = plan.actions.filter((action) => action.type === "conflict");
+		const changes = plan.actions.filter((action) => action.type !== "conflict");
+
+		// A file changed on both sides is resolved by picking which side to keep
+		const resolutions = conflicts.flatMap((action): SyncAction[] => [
+			{ type: "upload", path: action.path },
+			{ type: "download", path: action.path }
+		]);
+
+		const picked = await vscode.window.showQuickPick([
+			...changes.map((action) => ({
+				label: `${ACTION_LABELS[action.type]} ${action.path}`,
+				picked: action.type === "upload" || action.type === "download",
+				action
+			})),
+			...resolutions.map((action) => ({
+				label: `$(warning) ${action.type === "upload" ? "Keep local" : "Keep server"} ${action.path}`,
+				description: "Changed on both sides",
+				picked: false,
+				action
+			}))
+		], {
+			canPickMany: true,
+			placeHolder: conflicts.length
+				? `Select the changes to apply, and which side to keep for the ${conflicts.length} file(s) changed on both sides`
+				: "Select the changes to apply"
+		});
+
+		if (!picked) {
+			return;
+		}
+
+		const paths = picked.map((item) => item.action.path);
+		const ambiguous = paths.filter((filePath, index) => paths.indexOf(filePath) !== index);
+
+		if (ambiguous.length) {
+			vscode.window.showErrorMessage(`Pick either the local or the server version of ${[...new Set(ambiguous)].join(", ")}, not both.`);
+			return;
+		}
+
+		const result = await vscode.window.withProgress({
+			location: vscode.ProgressLocation.Notification,
+			title: `Syncing ${title}`
+		}, (progress) => this.apply(plan, picked.map((item) => item.action), progress));
+
+		if (result.failed.length) {
+			vscode.window.showErrorMessage(`Synced ${result.applied} file(s), ${result.failed.length} failed: ${result.failed.map((failure) => `${failure.path} (${failure.message})`).join(", ")}`);
+		}
+		else {
+			vscode.window.showInformationMessage(`Synced ${result.applied} file(s) for ${title}${result.conflicts ? `, skipped ${result.conflicts} conflict(s)` : ""}.`);
+		}
+	}
+
+	async addMapping() {
+		const folders = await vscode.window.showOpenDialog({
+			canSelectFiles: false,
+			canSelectFolders: true,
+			canSelectMany: false,
+			openLabel: "Sync this folder"
+		});
+
+		if (!folders || folders.length === 0) {
+			return;
+		}
+
+		const server = await vscode.window.showQuickPick(getServers().map((candidate) => candidate.name), {
+			placeHolder: "Select the server to sync with"
+		});
+
+		if (!server) {
+			return;
+		}
+
+		const remote = await vscode.window.showInputBox({
+			prompt: "Enter the server path to sync with",
+			value: `/addons/${path.basename(folders[0].fsPath)}`
+		});
+
+		if (!remote) {
+			return;
+		}
+
+		const mode = await vscode.window.showQuickPick((Object.keys(MODE_LABELS) as SyncMode[]).map((value) => ({
+			label: value,
+			description: MODE_LABELS[value]
+		})), { placeHolder: "Select how changes are synced" });
+
+		if (!mode) {
+			return;
+		}
+
+		let syncOnSave = false;
+
+		if (mode.label !== "pull") {
+			const choice = await vscode.window.showQuickPick(["Yes", "No"], {
+				placeHolder: "Upload files to the server whenever you save them?"
+			});
+
+			if (!choice) {
+				return;
+			}
+
+			syncOnSave = choice === "Yes";
+		}
+
+		await storeSyncMapping({ server, local: folders[0].fsPath, remote, mode: mode.label as SyncMode, syncOnSave });
+
+		const next = await vscode.window.showInformationMessage(`Added ${path.basename(folders[0].fsPath)} as a sync folder for ${server}.`, "Sync Now");
+
+		if (next) {
+			await this.sync();
+		}
+	}
+
+	async syncSavedDocument(document: vscode.TextDocument) {
+		if (document.uri.scheme !== "file") {
+			return;
+		}
+
+		for (const mapping of getSyncMappings()) {
+			if (!mapping.syncOnSave || mapping.mode === "pull") {
+				continue;
+			}
+
+			const relative = path.relative(localRoot(mapping), document.uri.fsPath);
+
+			if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+				continue;
+			}
+
+			const filePath = relative.split(path.sep).join("/");
+
+			if (matchesAny(this.ignorePatterns(mapping), filePath) || !this.relays.forUri(remoteUri(mapping.server))?.isConnected()) {
+				continue;
+			}
+
+			try {
+				const uri = this.remoteUriFor(mapping, filePath);
+
+				await this.applyAction(mapping, { type: "upload", path: filePath });
+
+				const key = this.baselineKey(mapping);
+				const localStat = await fs.promises.stat(document.uri.fsPath);
+				const remoteStat = await this.remoteFS.stat(uri);
+				const baseline = this.context.workspaceState.get<SyncBaseline>(key, {});
+
+				await this.context.workspaceState.update(key, {
+					...baseline,
+					[filePath]: { local: Math.floor(localStat.mtimeMs), remote: remoteStat.mtime }
+				});
+			} catch (err) {
+				vscode.window.showErrorMessage(`Failed to sync ${filePath} to ${mapping.server}: ${(err as Error).message}`);
+			}
+		}
+	}
+
+	dispose() {
+		this.saveListener.dispose();
+	}
+}
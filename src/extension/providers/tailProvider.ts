@@ -0,0 +1,253 @@
+import * as vscode from "vscode";
+import { RelayClient } from "../modules/relay";
+import { RelayPool } from "../modules/relayPool";
+import { createLineFilter, LineSplitter, LogLevel } from "../modules/tail";
+import { pickRelay } from "./commandProvider";
+import { RemoteFileSystemProvider, remoteUri, useRemoteFS } from "./fileSystemProvider";
+
+declare global {
+	var gmodRemoteTails: RemoteTails;
+}
+
+export type TailOutput = Pick<vscode.OutputChannel, "appendLine" | "show" | "dispose">;
+
+export type TailOptions = {
+	filter: (line: string) => boolean;
+	interval: number;
+	initialBytes: number;
+};
+
+const LEVEL_CHOICES: { label: string; level: LogLevel }[] = [
+	{ label: "All lines", level: "info" },
+	{ label: "Warnings and errors", level: "warning" },
+	{ label: "Errors only", level: "error" }
+];
+
+export function useTail(relays: RelayPool, context: vscode.ExtensionContext) {
+	if (!globalThis.gmodRemoteTails) {
+		globalThis.gmodRemoteTails = new RemoteTails(relays, useRemoteFS(relays, context));
+	}
+
+	return globalThis.gmodRemoteTails;
+}
+
+export class RemoteTail implements vscode.Disposable {
+	private offset = 0;
+	private splitter = new LineSplitter();
+	private skipPartialLine = false;
+	private polling = false;
+	private timer?: NodeJS.Timeout;
+	relay?: RelayClient;
+
+	constructor(private relays: RelayPool, private remoteFS: RemoteFileSystemProvider, readonly uri: vscode.Uri, readonly output: TailOutput, private options: TailOptions) { }
+
+	private async size() {
+		const relay = this.relays.forUri(this.uri);
+
+		if (!relay || !relay.isConnected()) {
+			return undefined;
+		}
+
+		const res = await relay.rpc("FS.Stat", { path: this.uri.path });
+
+		if (!res.success) {
+			return undefined;
+		}
+
+		return res.size || 0;
+	}
+
+	async start() {
+		const size = await this.size();
+
+		if (size === undefined) {
+			throw new Error(`Could not read ${this.uri.path}`);
+		}
+
+		this.relay = this.relays.forUri(this.uri);
+
+		if (!this.relay?.supports("read_range")) {
+			throw new Error("The server does not support reading part of a file");
+		}
+
+		this.offset = Math.max(0, size - this.options.initialBytes);
+		this.skipPartialLine = this.offset > 0;
+
+		await this.poll();
+
+		this.timer = setInterval(() => this.poll(), this.options.interval);
+	}
+
+	async poll() {
+		if (this.polling) {
+			return;
+		}
+
+		this.polling = true;
+
+		try {
+			const size = await this.size();
+
+			if (size === undefined || size === this.offset) {
+				return;
+			}
+
+			if (size < this.offset) {
+				this.output.appendLine(`--- ${this.uri.path} was truncated, reading from the start ---`);
+				this.offset = 0;
+				this.skipPartialLine = false;
+				this.splitter.reset();
+			}
+
+			const data = await this.remoteFS.readRange(this.uri, this.offset, size - this.offset);
+			let lines = this.splitter.push(Buffer.from(data));
+
+			this.offset += data.length;
+
+			if (this.skipPartialLine && lines.length > 0) {
+				lines = lines.slice(1);
+				this.skipPartialLine = false;
+			}
+
+			for (const line of lines) {
+				if (this.options.filter(line)) {
+					this.output.appendLine(line);
+				}
+			}
+		} catch (err) {
+			console.error(`Failed to tail ${this.uri.toString()}:`, err);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	dispose() {
+		clearInterval(this.timer);
+		this.output.dispose();
+	}
+}
+
+export class RemoteTails implements vscode.Disposable {
+	private tails = new Map<string, RemoteTail>();
+
+	constructor(private relays: RelayPool, private remoteFS: RemoteFileSystemProvider) {
+		this.relays.on("removed", (relay: RelayClient) => {
+			for (const [key, tail] of this.tails) {
+				if (tail.relay === relay) {
+					this.tails.delete(key);
+					tail.dispose();
+				}
+			}
+		});
+	}
+
+	private async pickFile(uri?: vscode.Uri) {
+		if (uri?.scheme === "gmod") {
+			return uri;
+		}
+
+		const active = vscode.window.activeTextEditor?.document.uri;
+
+		if (active?.scheme === "gmod") {
+			return active;
+		}
+
+		const relay = await pickRelay(this.relays.all().filter((candidate) => candidate.isConnected()), "Select a server to tail a file on");
+
+		if (!relay) {
+			vscode.window.showErrorMessage("Connect to a server before tailing a file.");
+			return undefined;
+		}
+
+		const filePath = await vscode.window.showInputBox({
+			prompt: "Enter the path of the file to tail",
+			value: "/console.log"
+		});
+
+		return filePath ? remoteUri(relay.serverKey, filePath.startsWith("/") ? filePath : "/" + filePath) : undefined;
+	}
+
+	async start(target?: vscode.Uri) {
+		const uri = await this.pickFile(target);
+
+		if (!uri) {
+			return;
+		}
+
+		const existing = this.tails.get(uri.toString());
+
+		if (existing) {
+			existing.output.show(true);
+			return;
+		}
+
+		const pattern = await vscode.window.showInputBox({
+			prompt: "Only show lines matching this regular expression (leave empty to show every line)",
+			validateInput: (value) => {
+				try {
+					new RegExp(value);
+					return null;
+				} catch (err) {
+					return (err as Error).message;
+				}
+			}
+		});
+
+		if (pattern === undefined) {
+			return;
+		}
+
+		const level = await vscode.window.showQuickPick(LEVEL_CHOICES, { placeHolder: "Select the log levels to show" });
+
+		if (!level) {
+			return;
+		}
+
+		const config = vscode.workspace.getConfiguration("gmodRemote");
+		const output = vscode.window.createOutputChannel(`Tail: ${uri.authority}${uri.path}`);
+		const tail = new RemoteTail(this.relays, this.remoteFS, uri, output, {
+			filter: createLineFilter(pattern ? new RegExp(pattern) : null, level.level),
+			interval: config.get<number>("tail.interval", 1000),
+			initialBytes: config.get<number>("tail.initialBytes", 16384)
+		});
+
+		try {
+			await tail.start();
+		} catch (err) {
+			tail.dispose();
+			vscode.window.showErrorMessage(`Failed to tail ${uri.path}: ${(err as Error).message}`);
+			return;
+		}
+
+		this.tails.set(uri.toString(), tail);
+		output.show(true);
+	}
+
+	async stop() {
+		const tails = [...this.tails.values()];
+
+		if (tails.length === 0) {
+			vscode.window.showInformationMessage("No remote files are being tailed.");
+			return;
+		}
+
+		const picked = tails.length === 1 ? tails[0] : (await vscode.window.showQuickPick(tails.map((tail) => ({
+			label: tail.uri.path,
+			description: tail.uri.authority,
+			tail
+		})), { placeHolder: "Select a file to stop tailing" }))?.tail;
+
+		if (picked) {
+			this.tails.delete(picked.uri.toString());
+			picked.dispose();
+		}
+	}
+
+	dispose() {
+		for (const tail of this.tails.values()) {
+			tail.dispose();
+		}
+
+		this.tails.clear();
+	}
+}
@@ -0,0 +1,168 @@
+import * as vscode from "vscode";
+import os from "os";
+import path from "path";
+import { RelayClient } from "../modules/relay";
+import { DIRECT_PROXY } from "../modules/proxy";
+import { RelayPool } from "../modules/relayPool";
+import { readTrace, TraceRecorder } from "../modules/trace";
+import { TraceReplayServer } from "../modules/traceReplay";
+import { remoteUri } from "./fileSystemProvider";
+import { RelayClientHelloMessage, TraceEntry } from "../types";
+
+declare global {
+	var gmodProtocolTrace: ProtocolTrace;
+}
+
+export function useTrace(relays: RelayPool) {
+	if (!globalThis.gmodProtocolTrace) {
+		globalThis.gmodProtocolTrace = new ProtocolTrace(relays);
+	}
+
+	return globalThis.gmodProtocolTrace;
+}
+
+export class ProtocolTrace implements vscode.Disposable {
+	private recorder = new TraceRecorder();
+	private replays = new Map<string, TraceReplayServer>();
+
+	constructor(private relays: RelayPool) {
+		this.relays.on("added", (relay: RelayClient) => {
+			if (this.recorder.isRecording()) {
+				this.recorder.attach(relay);
+			}
+		});
+
+		this.relays.on("removed", (relay: RelayClient) => {
+			this.recorder.detach(relay);
+
+			const replay = this.replays.get(relay.serverKey);
+
+			if (replay) {
+				this.replays.delete(relay.serverKey);
+				replay.close();
+			}
+		});
+	}
+
+	isRecording() {
+		return this.recorder.isRecording();
+	}
+
+	async startRecording() {
+		if (this.recorder.isRecording()) {
+			vscode.window.showInformationMessage("A protocol trace is already being recorded.");
+			return;
+		}
+
+		const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: vscode.Uri.file(path.join(os.homedir(), `gmod-remote-trace-${stamp}.jsonl`)),
+			filters: { "Protocol Trace": ["jsonl"] }
+		});
+
+		if (!target) {
+			return;
+		}
+
+		this.recorder.start(target.fsPath);
+
+		for (const relay of this.relays.all()) {
+			this.recorder.attach(relay);
+		}
+
+		vscode.window.showInformationMessage(`Recording protocol trace to ${target.fsPath}`);
+	}
+
+	async stopRecording() {
+		this.recorder.detachAll();
+
+		const filePath = await this.recorder.stop();
+
+		if (!filePath) {
+			vscode.window.showInformationMessage("No protocol trace is being recorded.");
+			return;
+		}
+
+		const choice = await vscode.window.showInformationMessage(`Protocol trace saved to ${filePath}`, "Open");
+
+		if (choice === "Open") {
+			vscode.window.showTextDocument(vscode.Uri.file(filePath));
+		}
+	}
+
+	async replay() {
+		const selection = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			filters: { "Protocol Trace": ["jsonl"] }
+		});
+
+		if (!selection || selection.length === 0) {
+			return;
+		}
+
+		let entries: TraceEntry[];
+
+		try {
+			entries = readTrace(selection[0].fsPath);
+		} catch (err) {
+			vscode.window.showErrorMessage(`Failed to read protocol trace: ${err instanceof Error ? err.message : String(err)}`);
+			return;
+		}
+
+		const servers = [...new Set(entries.map((entry) => entry.server))];
+
+		if (servers.length === 0) {
+			vscode.window.showErrorMessage("The protocol trace is empty.");
+			return;
+		}
+
+		const server = servers.length === 1 ? servers[0] : await vscode.window.showQuickPick(servers, {
+			placeHolder: "Select the server to replay"
+		});
+
+		if (!server) {
+			return;
+		}
+
+		const serverEntries = entries.filter((entry) => entry.server === server);
+		const hello = serverEntries.find((entry) => entry.message.type === "client_hello")?.message as RelayClientHelloMessage | undefined;
+		const serverKey = `replay-${path.basename(selection[0].fsPath, ".jsonl").replace(/[^\w-]/g, "-")}`;
+
+		if (this.relays.get(serverKey)) {
+			vscode.window.showErrorMessage(`${serverKey} is already being replayed.`);
+			return;
+		}
+
+		const replay = await TraceReplayServer.start(serverEntries);
+		const relay = this.relays.getOrCreate(serverKey);
+
+		this.replays.set(serverKey, replay);
+
+		try {
+			await relay.connect(replay.url, hello?.serverAddress || server, "", null, DIRECT_PROXY);
+		} catch (err) {
+			relay.disconnect();
+			this.relays.remove(serverKey);
+			vscode.window.showErrorMessage(`Failed to replay protocol trace: ${err instanceof Error ? err.message : String(err)}`);
+			return;
+		}
+
+		const folders = vscode.workspace.workspaceFolders || [];
+
+		vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+			name: `Replay: ${server}`,
+			uri: remoteUri(serverKey)
+		});
+	}
+
+	dispose() {
+		this.recorder.detachAll();
+		this.recorder.stop();
+
+		for (const replay of this.replays.values()) {
+			replay.close();
+		}
+
+		this.replays.clear();
+	}
+}
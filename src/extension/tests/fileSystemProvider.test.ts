@@ -0,0 +1,366 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { RelayPool } from "../modules/relayPool";
+import { RemoteFileSystemProvider, remoteUri } from "../providers/fileSystemProvider";
+import { createContext } from "./mock/context";
+import { MockRelay } from "./mock/mockRelay";
+
+async function waitFor(condition: () => boolean, timeout = 1000) {
+	const deadline = Date.now() + timeout;
+
+	while (!condition()) {
+		if (Date.now() > deadline) {
+			throw new Error("Timed out waiting for condition");
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+}
+
+function isFileSystemError(code: string) {
+	return (err: Error & { code?: string }) => err instanceof vscode.FileSystemError && err.code === code;
+}
+
+suite("RemoteFileSystemProvider", () => {
+	let server: MockRelay;
+	let relays: RelayPool;
+	let provider: RemoteFileSystemProvider;
+
+	setup(async () => {
+		server = await MockRelay.start({
+			chunkSize: 32,
+			files: {
+				"/lua/autorun/init.lua": "print('init')",
+				"/lua/autorun/server/sv_main.lua": "-- server"
+			}
+		});
+
+		relays = new RelayPool();
+		provider = new RemoteFileSystemProvider(relays, createContext());
+
+		await relays.getOrCreate("mock").connect(server.url, server.address, server.password, null);
+	});
+
+	teardown(async () => {
+		relays.get("mock")?.disconnect();
+		await server.close();
+	});
+
+	test("stats files and directories", async () => {
+		const file = await provider.stat(remoteUri("mock", "/lua/autorun/init.lua"));
+		const directory = await provider.stat(remoteUri("mock", "/lua"));
+
+		assert.strictEqual(file.type, vscode.FileType.File);
+		assert.strictEqual(file.size, 13);
+		assert.strictEqual(directory.type, vscode.FileType.Directory);
+	});
+
+	test("lists directories", async () => {
+		const entries = await provider.readDirectory(remoteUri("mock", "/lua/autorun"));
+
+		assert.deepStrictEqual(entries.sort(), [["init.lua", vscode.FileType.File], ["server", vscode.FileType.Directory]]);
+	});
+
+	test("reads and writes files", async () => {
+		const uri = remoteUri("mock", "/lua/autorun/init.lua");
+		const contents = "print('updated')";
+
+		assert.strictEqual(Buffer.from(await provider.readFile(uri)).toString("utf8"), "print('init')");
+
+		await provider.writeFile(uri, Buffer.from(contents));
+
+		assert.strictEqual(Buffer.from(await provider.readFile(uri)).toString("utf8"), contents);
+	});
+
+	test("truncates files when writing shorter contents", async () => {
+		const uri = remoteUri("mock", "/lua/autorun/server/sv_main.lua");
+
+		await provider.writeFile(uri, Buffer.from("--"));
+
+		assert.strictEqual(server.readFileSync("/lua/autorun/server/sv_main.lua")?.toString("utf8"), "--");
+	});
+
+	test("creates, renames and deletes entries", async () => {
+		await provider.createDirectory(remoteUri("mock", "/data"));
+		await provider.copy(remoteUri("mock", "/lua/autorun/init.lua"), remoteUri("mock", "/data/init.lua"));
+		await provider.rename(remoteUri("mock", "/data/init.lua"), remoteUri("mock", "/data/copy.lua"));
+
+		assert.ok(server.readFileSync("/data/copy.lua"));
+		assert.strictEqual(server.readFileSync("/data/init.lua"), undefined);
+
+		await provider.delete(remoteUri("mock", "/data"), { recursive: true });
+
+		await assert.rejects(provider.stat(remoteUri("mock", "/data")), isFileSystemError("FileNotFound"));
+	});
+
+	test("deletes folders with contents only when recursive", async () => {
+		await assert.rejects(provider.delete(remoteUri("mock", "/lua"), { recursive: false }), isFileSystemError("NoPermissions"));
+		assert.ok(server.readFileSync("/lua/autorun/init.lua"));
+		assert.strictEqual(server.rpcLog.filter((rpc) => rpc.action === "FS.ListFiles").length, 1);
+
+		await provider.delete(remoteUri("mock", "/lua"), { recursive: true });
+
+		assert.strictEqual(server.readFileSync("/lua/autorun/init.lua"), undefined);
+		assert.deepStrictEqual(server.rpcLog.filter((rpc) => rpc.action === "FS.Delete").map((rpc) => rpc.payload.path), [
+			"/lua/autorun/init.lua",
+			"/lua/autorun/server/sv_main.lua",
+			"/lua/autorun/server",
+			"/lua/autorun",
+			"/lua"
+		]);
+	});
+
+	test("overwrites existing entries only when asked", async () => {
+		const source = remoteUri("mock", "/lua/autorun/init.lua");
+		const destination = remoteUri("mock", "/lua/autorun/server/sv_main.lua");
+
+		await assert.rejects(provider.copy(source, destination, { overwrite: false }), isFileSystemError("FileExists"));
+		await assert.rejects(provider.rename(source, destination, { overwrite: false }), isFileSystemError("FileExists"));
+		assert.strictEqual(server.readFileSync("/lua/autorun/server/sv_main.lua")?.toString("utf8"), "-- server");
+
+		await provider.copy(source, destination, { overwrite: true });
+		assert.strictEqual(server.readFileSync("/lua/autorun/server/sv_main.lua")?.toString("utf8"), "print('init')");
+
+		await provider.rename(destination, source, { overwrite: true });
+		assert.strictEqual(server.readFileSync("/lua/autorun/server/sv_main.lua"), undefined);
+	});
+
+	test("copies folders entry by entry and reports partial failures", async () => {
+		server.failPaths.add("/lua/autorun/server/sv_main.lua");
+
+		await assert.rejects(provider.copy(remoteUri("mock", "/lua"), remoteUri("mock", "/backup"), { overwrite: false }), isFileSystemError("Unavailable"));
+
+		assert.strictEqual(server.readFileSync("/backup/autorun/init.lua")?.toString("utf8"), "print('init')");
+		assert.strictEqual(server.readFileSync("/backup/autorun/server/sv_main.lua"), undefined);
+	});
+
+	test("uploads large files in chunks and retries failed chunks", async () => {
+		const limited = await MockRelay.start({ limits: { maxFrameSize: 4096 }, files: { "/data/log.txt": "" } });
+		const relay = relays.getOrCreate("limited");
+		const contents = Buffer.alloc(5000, "abcdefghij");
+
+		try {
+			await relay.connect(limited.url, limited.address, limited.password, null);
+
+			limited.failWrites = 1;
+			await provider.writeFile(remoteUri("limited", "/data/log.txt"), contents);
+
+			assert.deepStrictEqual(limited.rpcLog.filter((rpc) => rpc.action === "FS.Write").map((rpc) => rpc.payload.offset), [0, 0, 1536, 3072, 4608]);
+			assert.deepStrictEqual(limited.readFileSync("/data/log.txt"), contents);
+		} finally {
+			relay.disconnect();
+			await limited.close();
+		}
+	});
+
+	test("saves small files atomically", async () => {
+		await provider.writeFile(remoteUri("mock", "/lua/autorun/init.lua"), Buffer.from("print('atomic')"));
+
+		assert.deepStrictEqual(server.rpcLog.map((rpc) => rpc.action), ["FS.WriteAtomic", "FS.Stat"]);
+		assert.strictEqual(server.readFileSync("/lua/autorun/init.lua")?.toString("utf8"), "print('atomic')");
+	});
+
+	test("replaces large files through a temporary copy", async () => {
+		const limited = await MockRelay.start({ limits: { maxFrameSize: 4096 }, files: { "/lua/big.lua": "-- old" } });
+		const relay = relays.getOrCreate("limited");
+		const contents = Buffer.alloc(5000, "-- padding\n");
+
+		try {
+			await relay.connect(limited.url, limited.address, limited.password, null);
+			await provider.writeFile(remoteUri("limited", "/lua/big.lua"), contents);
+
+			const rename = limited.rpcLog.find((rpc) => rpc.action === "FS.Rename");
+			const tempPath = rename?.payload.from as string;
+
+			assert.match(tempPath, /^\/lua\/\.big\.lua\.[0-9a-f]+\.tmp$/);
+			assert.deepStrictEqual(rename?.payload, { from: tempPath, to: "/lua/big.lua", overwrite: true });
+			assert.ok(limited.rpcLog.filter((rpc) => rpc.action === "FS.Write").every((rpc) => rpc.payload.path === tempPath));
+			assert.deepStrictEqual(limited.readFileSync("/lua/big.lua"), contents);
+			assert.strictEqual(limited.readFileSync(tempPath), undefined);
+
+			limited.corruptWrites = true;
+			await assert.rejects(provider.writeFile(remoteUri("limited", "/lua/big.lua"), Buffer.alloc(5000, "-- broken\n")), isFileSystemError("Unavailable"));
+			await waitFor(() => limited.rpcLog.some((rpc) => rpc.action === "FS.Delete"));
+
+			assert.deepStrictEqual(limited.readFileSync("/lua/big.lua"), contents);
+		} finally {
+			relay.disconnect();
+			await limited.close();
+		}
+	});
+
+	test("keeps saving atomically while reconnecting", async () => {
+		const relay = relays.get("mock")!;
+		const connecting = new Promise((resolve) => relay.once("connecting", resolve));
+
+		server.disconnectClients();
+		await connecting;
+		await provider.writeFile(remoteUri("mock", "/lua/autorun/new.lua"), Buffer.from("-- new"));
+
+		assert.deepStrictEqual(server.rpcLog.map((rpc) => rpc.action).filter((action) => action.startsWith("FS.Write") || action === "FS.Truncate"), ["FS.WriteAtomic"]);
+	});
+
+	test("falls back to write and truncate on servers without atomic saves", async () => {
+		const legacy = await MockRelay.start({
+			capabilities: ["FS.Stat", "FS.ListFiles", "FS.Read", "FS.Write", "FS.Truncate", "FS.Rename"],
+			files: { "/lua/init.lua": "print('a longer original')" }
+		});
+		const relay = relays.getOrCreate("legacy");
+
+		try {
+			await relay.connect(legacy.url, legacy.address, legacy.password, null);
+			await provider.writeFile(remoteUri("legacy", "/lua/init.lua"), Buffer.from("print('b')"));
+
+			assert.deepStrictEqual(legacy.rpcLog.map((rpc) => rpc.action), ["FS.Write", "FS.Truncate", "FS.Stat"]);
+			assert.strictEqual(legacy.readFileSync("/lua/init.lua")?.toString("utf8"), "print('b')");
+		} finally {
+			relay.disconnect();
+			await legacy.close();
+		}
+	});
+
+	test("refuses to overwrite files changed on the server after they were read", async () => {
+		const uri = remoteUri("mock", "/lua/autorun/init.lua");
+
+		await provider.readFile(uri);
+		await provider.writeFile(uri, Buffer.from("print('first save')"));
+		await new Promise((resolve) => setTimeout(resolve, 5));
+
+		server.writeFileSync("/lua/autorun/init.lua", "print('someone else')");
+
+		await assert.rejects(provider.writeFile(uri, Buffer.from("print('second save')")), isFileSystemError("Unavailable"));
+		assert.strictEqual(server.readFileSync("/lua/autorun/init.lua")?.toString("utf8"), "print('someone else')");
+		assert.strictEqual(await provider.provideTextDocumentContent(uri.with({ scheme: "gmod-server" })), "print('someone else')");
+
+		await provider.readFile(uri);
+		await provider.writeFile(uri, Buffer.from("print('second save')"));
+
+		assert.strictEqual(server.readFileSync("/lua/autorun/init.lua")?.toString("utf8"), "print('second save')");
+	});
+
+	test("caches stats and directory listings", async () => {
+		const count = (action: string) => server.rpcLog.filter((rpc) => rpc.action === action).length;
+
+		await provider.stat(remoteUri("mock", "/lua/autorun/init.lua"));
+		await provider.stat(remoteUri("mock", "/lua/autorun/init.lua"));
+		await assert.rejects(provider.stat(remoteUri("mock", "/missing.lua")), isFileSystemError("FileNotFound"));
+		await assert.rejects(provider.stat(remoteUri("mock", "/missing.lua")), isFileSystemError("FileNotFound"));
+		await provider.readDirectory(remoteUri("mock", "/lua/autorun"));
+		await provider.readDirectory(remoteUri("mock", "/lua/autorun"));
+
+		assert.strictEqual(count("FS.Stat"), 2);
+		assert.strictEqual(count("FS.ListFiles"), 1);
+
+		provider.refreshFolder(remoteUri("mock", "/lua"));
+		await provider.stat(remoteUri("mock", "/lua/autorun/init.lua"));
+		await provider.readDirectory(remoteUri("mock", "/lua/autorun"));
+		await provider.stat(remoteUri("mock", "/missing.lua")).catch(() => { });
+
+		assert.strictEqual(count("FS.Stat"), 3);
+		assert.strictEqual(count("FS.ListFiles"), 2);
+	});
+
+	test("does not cache failed stats other than missing files", async () => {
+		const uri = remoteUri("mock", "/lua/autorun/init.lua");
+
+		server.failPaths.add("/lua/autorun/init.lua");
+		await assert.rejects(provider.stat(uri), isFileSystemError("Unavailable"));
+
+		server.failPaths.clear();
+		assert.strictEqual((await provider.stat(uri)).size, 13);
+	});
+
+	test("invalidates cached entries after changes", async () => {
+		const uri = remoteUri("mock", "/lua/autorun/init.lua");
+
+		await provider.readDirectory(remoteUri("mock", "/lua/autorun"));
+		await assert.rejects(provider.stat(remoteUri("mock", "/lua/autorun/new.lua")), isFileSystemError("FileNotFound"));
+		await provider.writeFile(remoteUri("mock", "/lua/autorun/new.lua"), Buffer.from("-- new"));
+
+		assert.strictEqual((await provider.stat(remoteUri("mock", "/lua/autorun/new.lua"))).size, 6);
+		assert.ok((await provider.readDirectory(remoteUri("mock", "/lua/autorun"))).some(([name]) => name === "new.lua"));
+
+		const events: vscode.FileChangeEvent[] = [];
+		const subscription = provider.onDidChangeFile((changes) => events.push(...changes));
+		const watch = provider.watch(remoteUri("mock", "/lua"), { recursive: true, excludes: [] });
+
+		try {
+			await waitFor(() => server.watchCount === 1);
+			assert.strictEqual((await provider.stat(uri)).size, 13);
+
+			server.writeFileSync("/lua/autorun/init.lua", "print('edited elsewhere')");
+
+			await waitFor(() => events.some((event) => event.uri.toString() === uri.toString()));
+			assert.strictEqual((await provider.stat(uri)).size, 25);
+		} finally {
+			watch.dispose();
+			subscription.dispose();
+		}
+	});
+
+	test("maps server errors to file system errors", async () => {
+		await assert.rejects(provider.readFile(remoteUri("mock", "/missing.lua")), isFileSystemError("FileNotFound"));
+		await assert.rejects(provider.readDirectory(remoteUri("mock", "/lua/autorun/init.lua")), isFileSystemError("FileNotADirectory"));
+		await assert.rejects(provider.createDirectory(remoteUri("mock", "/lua")), isFileSystemError("FileExists"));
+	});
+
+	test("rejects corrupted transfers", async () => {
+		const uri = remoteUri("mock", "/lua/autorun/init.lua");
+
+		server.corruptStreams = true;
+		await assert.rejects(provider.readFile(uri), isFileSystemError("Unavailable"));
+
+		server.corruptWrites = true;
+		await assert.rejects(provider.writeFile(uri, Buffer.from("print('corrupted')")), isFileSystemError("Unavailable"));
+	});
+
+	test("forwards server change events for watched folders", async () => {
+		const events: vscode.FileChangeEvent[] = [];
+		const subscription = provider.onDidChangeFile((changes) => events.push(...changes));
+		const watch = provider.watch(remoteUri("mock", "/lua"), { recursive: true, excludes: ["**/*.tmp"] });
+
+		try {
+			await waitFor(() => server.watchCount === 1);
+
+			server.writeFileSync("/lua/autorun/init.lua", "print('edited elsewhere')");
+			server.writeFileSync("/lua/scratch.tmp", "ignored");
+			server.writeFileSync("/gamemodes/init.lua", "outside");
+
+			await waitFor(() => events.some((event) => event.uri.path === "/lua/autorun/init.lua"));
+			await new Promise((resolve) => setTimeout(resolve, 50));
+
+			assert.deepStrictEqual(events.filter((event) => event.uri.path !== "/").map((event) => [event.type, event.uri.toString()]), [
+				[vscode.FileChangeType.Changed, remoteUri("mock", "/lua/autorun/init.lua").toString()]
+			]);
+		} finally {
+			watch.dispose();
+			subscription.dispose();
+		}
+
+		await waitFor(() => server.watchCount === 0);
+	});
+
+	test("registers watches again after a session is lost", async () => {
+		const watch = provider.watch(remoteUri("mock", "/lua"), { recursive: false, excludes: [] });
+
+		try {
+			await waitFor(() => server.watchCount === 1);
+
+			server.allowResume = false;
+			server.disconnectClients();
+
+			await waitFor(() => server.rpcLog.filter((rpc) => rpc.action === "FS.Watch").length === 2, 5000);
+			await waitFor(() => server.watchCount === 1);
+		} finally {
+			watch.dispose();
+		}
+	});
+
+	test("finds servers whatever the case of the URI authority", async () => {
+		assert.strictEqual((await provider.stat(remoteUri("MOCK", "/lua/autorun/init.lua"))).size, 13);
+	});
+
+	test("reports unknown servers as unavailable", async () => {
+		await assert.rejects(provider.stat(remoteUri("other", "/lua")), isFileSystemError("Unavailable"));
+	});
+});
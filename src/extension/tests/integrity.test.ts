@@ -0,0 +1,20 @@
+import * as assert from "assert";
+import { createHasher, digest } from "../modules/integrity";
+
+suite("Integrity", () => {
+	test("computes known digests", () => {
+		assert.strictEqual(digest("crc32", Buffer.from("123456789")), "cbf43926");
+		assert.strictEqual(digest("sha256", Buffer.from("abc")), "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+	});
+
+	test("hashes chunked input like contiguous input", () => {
+		for (const algorithm of ["sha256", "crc32"] as const) {
+			const hasher = createHasher(algorithm);
+
+			hasher.update(Buffer.from("1234"));
+			hasher.update(Buffer.from("56789"));
+
+			assert.strictEqual(hasher.digest(), digest(algorithm, Buffer.from("123456789")));
+		}
+	});
+});
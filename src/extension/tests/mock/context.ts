@@ -0,0 +1,31 @@
+import * as vscode from "vscode";
+
+class MemoryMemento {
+	private values = new Map<string, unknown>();
+
+	keys() {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	update(key: string, value: unknown) {
+		if (value === undefined) {
+			this.values.delete(key);
+		} else {
+			this.values.set(key, value);
+		}
+
+		return Promise.resolve();
+	}
+}
+
+export function createContext() {
+	return {
+		subscriptions: [],
+		workspaceState: new MemoryMemento(),
+		globalState: new MemoryMemento()
+	} as unknown as vscode.ExtensionContext;
+}
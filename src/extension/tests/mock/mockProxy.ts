@@ -0,0 +1,103 @@
+import http from "http";
+import net from "net";
+import { AddressInfo } from "net";
+
+export class MockProxy {
+	connections = 0;
+	private sockets = new Set<net.Socket>();
+
+	private constructor(private server: net.Server, readonly protocol: "http" | "socks5") {
+		this.server.on("connection", (socket: net.Socket) => {
+			this.sockets.add(socket);
+			socket.on("close", () => this.sockets.delete(socket));
+		});
+	}
+
+	static startHttp(): Promise<MockProxy> {
+		const server = http.createServer((_, res) => res.writeHead(405).end());
+		const proxy = new MockProxy(server, "http");
+
+		server.on("connect", (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+			const [host, port] = (req.url || "").split(":");
+
+			proxy.tunnel(socket, host, Number(port), () => {
+				socket.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+			}, head);
+		});
+
+		return proxy.listen();
+	}
+
+	static startSocks(): Promise<MockProxy> {
+		const server = net.createServer();
+		const proxy = new MockProxy(server, "socks5");
+
+		server.on("connection", (socket) => {
+			socket.once("data", (greeting) => {
+				if (greeting[0] !== 5) {
+					return socket.destroy();
+				}
+
+				socket.write(Buffer.from([5, 0]));
+				socket.once("data", (request) => {
+					let host: string;
+					let offset: number;
+
+					if (request[3] === 1) {
+						host = [...request.subarray(4, 8)].join(".");
+						offset = 8;
+					} else if (request[3] === 3) {
+						host = request.subarray(5, 5 + request[4]).toString();
+						offset = 5 + request[4];
+					} else {
+						return socket.destroy();
+					}
+
+					proxy.tunnel(socket, host, request.readUInt16BE(offset), () => {
+						socket.write(Buffer.from([5, 0, 0, 1, 0, 0, 0, 0, 0, 0]));
+					});
+				});
+			});
+		});
+
+		return proxy.listen();
+	}
+
+	get url() {
+		return `${this.protocol}://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	close(): Promise<void> {
+		for (const socket of this.sockets) {
+			socket.destroy();
+		}
+
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	private listen(): Promise<MockProxy> {
+		return new Promise((resolve, reject) => {
+			this.server.once("listening", () => resolve(this));
+			this.server.once("error", reject);
+			this.server.listen(0, "127.0.0.1");
+		});
+	}
+
+	private tunnel(socket: net.Socket, host: string, port: number, onConnected: () => void, head?: Buffer) {
+		const upstream = net.connect(port, host, () => {
+			this.connections++;
+			onConnected();
+
+			if (head && head.length > 0) {
+				upstream.write(head);
+			}
+
+			socket.pipe(upstream).pipe(socket);
+		});
+
+		this.sockets.add(upstream);
+		upstream.on("close", () => this.sockets.delete(upstream));
+		upstream.on("error", () => socket.destroy());
+		socket.on("error", () => upstream.destroy());
+	}
+}
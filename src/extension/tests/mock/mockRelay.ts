@@ -0,0 +1,820 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import { PayloadCodec } from "../../modules/compression";
+import { encodeFrame, frameHeader } from "../../modules/frame";
+import { globToRegExp } from "../../modules/glob";
+import { digest } from "../../modules/integrity";
+import { xorBuffer } from "../../modules/xor";
+import { associatedData } from "../../modules/cipher";
+import { CLIENT_FEATURES, handshakeTranscript, PROTOCOL_VERSION } from "../../modules/protocol";
+import { IntegrityAlgorithm, RemoteFileChange, RelayCipher, RelayClientHelloMessage, RelayCompression, RelayFrameFormat, RelayMessage, RelayServerUpdateMessage, SearchChunk, ServerLimits } from "../../types";
+
+export type MockRelayOptions = {
+	serverName?: string;
+	address?: string;
+	password?: string;
+	encryptionKey?: string;
+	cipher?: RelayCipher;
+	files?: Record<string, string | Buffer>;
+	root?: string;
+	chunkSize?: number;
+	frameFormat?: RelayFrameFormat;
+	compression?: RelayCompression;
+	capabilities?: string[];
+	limits?: ServerLimits;
+	protocolVersion?: number;
+	minProtocolVersion?: number;
+	integrity?: IntegrityAlgorithm | null;
+}
+
+type MockEntry = { type: "file"; data: Buffer; created: number; modified: number } | { type: "directory"; created: number; modified: number };
+
+type MockSessionState = {
+	token: string;
+	history: Map<number, { response: MockResponse; stream?: Buffer[] }>;
+}
+
+type MockSession = {
+	socket: WebSocket;
+	state: MockSessionState | null;
+	cipher: MockCipher;
+	codec: PayloadCodec | null;
+	frameFormat: RelayFrameFormat;
+	integrity: IntegrityAlgorithm | null;
+	window: number | null;
+	streams: Map<number, MockStream>;
+	cancelled: Set<number>;
+}
+
+type MockStream = {
+	acked: number;
+	pump: () => void;
+}
+
+type MockResponse = Record<string, unknown> & { success: boolean };
+
+type MockWatch = {
+	owner: MockSession;
+	path: string;
+	recursive: boolean;
+	excludes: RegExp[];
+}
+
+class MockCipher {
+	private key?: Buffer;
+	private sendCounter = 0n;
+
+	constructor(readonly name: RelayCipher, private secret: string, salt: Buffer) {
+		if (name === "aes-256-gcm") {
+			this.key = Buffer.from(crypto.hkdfSync("sha256", secret, salt, "gmsv_remote aes-256-gcm", 32));
+		}
+	}
+
+	seal(data: Buffer, aad?: Buffer) {
+		if (this.name === "xor") {
+			return xorBuffer(data, this.secret);
+		}
+
+		if (this.name !== "aes-256-gcm" || !this.key) {
+			return data;
+		}
+
+		const nonce = Buffer.alloc(12);
+
+		nonce.writeUInt32BE(2, 0);
+		nonce.writeBigUInt64BE(this.sendCounter++, 4);
+
+		const cipher = crypto.createCipheriv("aes-256-gcm", this.key, nonce, { authTagLength: 16 });
+
+		if (aad) {
+			cipher.setAAD(aad);
+		}
+
+		const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+		return Buffer.concat([nonce, encrypted, cipher.getAuthTag()]);
+	}
+
+	open(data: Buffer, aad?: Buffer) {
+		if (this.name === "xor") {
+			return xorBuffer(data, this.secret);
+		}
+
+		if (this.name !== "aes-256-gcm" || !this.key) {
+			return data;
+		}
+
+		const decipher = crypto.createDecipheriv("aes-256-gcm", this.key, data.subarray(0, 12), { authTagLength: 16 });
+		decipher.setAuthTag(data.subarray(data.length - 16));
+
+		if (aad) {
+			decipher.setAAD(aad);
+		}
+
+		return Buffer.concat([decipher.update(data.subarray(12, data.length - 16)), decipher.final()]);
+	}
+}
+
+export class MockRelay {
+	private server: WebSocketServer;
+	private sessions = new Set<MockSession>();
+	private entries = new Map<string, MockEntry>();
+	private resumable = new Map<string, MockSessionState>();
+	private watches = new Map<string, MockWatch>();
+	private nextWatchId = 1;
+
+	readonly received: RelayMessage[] = [];
+	readonly rpcLog: { action: string; payload: Record<string, unknown> }[] = [];
+	readonly streamed = new Map<number, number>();
+
+	responseDelay = 0;
+	rejectHello = false;
+	silentActions = new Set<string>();
+	outOfOrderStreams = false;
+	retagFrames = false;
+	retagResponses = false;
+	rewriteActions = new Map<string, string>();
+	rewriteUpdate: ((update: RelayServerUpdateMessage) => void) | null = null;
+	corruptStreams = false;
+	corruptWrites = false;
+	failWrites = 0;
+	failPaths = new Set<string>();
+	allowResume = true;
+	disconnectAfterChunks: number | null = null;
+	disconnectBeforeResponse = false;
+
+	private constructor(private options: MockRelayOptions, server: WebSocketServer) {
+		this.server = server;
+		this.server.on("connection", (socket) => this.accept(socket));
+
+		this.entries.set("/", { type: "directory", created: Date.now(), modified: Date.now() });
+
+		if (options.root) {
+			this.loadDirectory(options.root, "/");
+		}
+
+		for (const [filePath, contents] of Object.entries(options.files || {})) {
+			this.writeEntry(filePath, Buffer.isBuffer(contents) ? contents : Buffer.from(contents, "utf8"));
+		}
+	}
+
+	static start(options: MockRelayOptions = {}): Promise<MockRelay> {
+		return new Promise((resolve, reject) => {
+			const server = new WebSocketServer({ port: 0, host: "127.0.0.1", handleProtocols: () => false });
+
+			server.once("listening", () => resolve(new MockRelay(options, server)));
+			server.once("error", reject);
+		});
+	}
+
+	get url() {
+		return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+	}
+
+	get address() {
+		return this.options.address || "127.0.0.1:27015";
+	}
+
+	get password() {
+		return this.options.password || "password";
+	}
+
+	readFileSync(filePath: string) {
+		const entry = this.entries.get(filePath);
+
+		return entry && entry.type === "file" ? entry.data : undefined;
+	}
+
+	writeFileSync(filePath: string, contents: string | Buffer) {
+		const existed = this.entries.has(filePath);
+
+		this.writeEntry(filePath, Buffer.isBuffer(contents) ? contents : Buffer.from(contents, "utf8"));
+		this.notify([{ type: existed ? "changed" : "created", path: filePath }]);
+	}
+
+	get watchCount() {
+		return this.watches.size;
+	}
+
+	disconnectClients() {
+		for (const session of this.sessions) {
+			session.socket.terminate();
+		}
+	}
+
+	sendBadFrame() {
+		for (const session of this.sessions) {
+			session.socket.send(Buffer.from([1, 2, 3]));
+			session.socket.send("{ not json");
+		}
+	}
+
+	sendRaw(message: RelayMessage | Buffer) {
+		for (const session of this.sessions) {
+			session.socket.send(Buffer.isBuffer(message) ? message : JSON.stringify(message));
+		}
+	}
+
+	close(): Promise<void> {
+		this.disconnectClients();
+
+		return new Promise((resolve) => this.server.close(() => resolve()));
+	}
+
+	private loadDirectory(directory: string, remotePath: string) {
+		for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+			const localPath = path.join(directory, entry.name);
+			const entryPath = path.posix.join(remotePath, entry.name);
+
+			if (entry.isDirectory()) {
+				this.makeDirectories(entryPath);
+				this.loadDirectory(localPath, entryPath);
+			} else if (entry.isFile()) {
+				this.writeEntry(entryPath, fs.readFileSync(localPath));
+			}
+		}
+	}
+
+	private makeDirectories(directory: string) {
+		let current = "";
+
+		for (const part of directory.split("/").filter(Boolean)) {
+			current += "/" + part;
+
+			if (!this.entries.has(current)) {
+				this.entries.set(current, { type: "directory", created: Date.now(), modified: Date.now() });
+			}
+		}
+	}
+
+	private writeEntry(filePath: string, data: Buffer) {
+		const existing = this.entries.get(filePath);
+
+		this.makeDirectories(path.posix.dirname(filePath));
+		this.entries.set(filePath, {
+			type: "file",
+			data,
+			created: existing ? existing.created : Date.now(),
+			modified: Date.now()
+		});
+	}
+
+	private accept(socket: WebSocket) {
+		let session: MockSession | null = null;
+
+		socket.on("message", (data, isBinary) => {
+			if (isBinary) {
+				return;
+			}
+
+			const msg: RelayMessage = JSON.parse(data.toString());
+			this.received.push(msg);
+
+			if (msg.type === "ping") {
+				return socket.send(JSON.stringify({ type: "pong" }));
+			}
+
+			if (msg.type === "client_hello") {
+				session = this.hello(socket, msg);
+				return;
+			}
+
+			if (!session) {
+				return;
+			}
+
+			if (msg.type === "client_rpc_cancel") {
+				session.cancelled.add(msg.requestId);
+				return;
+			}
+
+			if (msg.type === "client_rpc_stream_ack") {
+				const stream = session.streams.get(msg.requestId);
+
+				if (stream && msg.consumed > stream.acked) {
+					stream.acked = msg.consumed;
+					stream.pump();
+				}
+
+				return;
+			}
+
+			if (msg.type === "client_rpc") {
+				const current = session;
+				const action = this.rewriteActions.get(msg.action) ?? msg.action;
+				let payload: Record<string, unknown>;
+
+				try {
+					payload = this.decode(current, msg.payload, associatedData("client_rpc", msg.requestId, action));
+				} catch {
+					this.respond(current, msg.requestId, { success: false, error_code: "decrypt_failed" });
+					return;
+				}
+
+				this.rpcLog.push({ action, payload });
+
+				if (this.silentActions.has(action)) {
+					return;
+				}
+
+				setTimeout(() => this.dispatch(current, msg.requestId, action, payload), this.responseDelay);
+			}
+		});
+
+		socket.on("close", () => {
+			if (session) {
+				this.sessions.delete(session);
+
+				for (const [watchId, watch] of this.watches) {
+					if (watch.owner === session && !session.state) {
+						this.watches.delete(watchId);
+					}
+				}
+			}
+		});
+	}
+
+	private hello(socket: WebSocket, msg: RelayClientHelloMessage): MockSession | null {
+		if (this.rejectHello || msg.serverAddress !== this.address || msg.serverPassword !== this.password) {
+			socket.send(JSON.stringify({ type: "client_hello_failure" }));
+			return null;
+		}
+
+		const secret = this.options.encryptionKey || "";
+		const cipherName: RelayCipher = !secret || !msg.ciphers
+			? (secret ? "xor" : "none")
+			: this.options.cipher || msg.ciphers.find((cipher) => cipher === "aes-256-gcm" || cipher === "xor") || "none";
+
+		const compression = this.options.compression && msg.compression?.includes(this.options.compression)
+			? this.options.compression
+			: "none";
+
+		const frameFormat = this.options.frameFormat || (msg.frameFormats?.includes("tagged") ? "tagged" : "legacy");
+		const integrity = this.options.integrity === undefined ? msg.integrity?.[0] || null : this.options.integrity;
+
+		const resumed = msg.resume && this.allowResume ? this.resumable.get(msg.resume.token) : undefined;
+		const state: MockSessionState | null = resumed || (msg.features?.includes("session_resume") ? { token: crypto.randomUUID(), history: new Map() } : null);
+
+		if (state) {
+			this.resumable.set(state.token, state);
+		}
+
+		const legacy = this.options.protocolVersion === 1;
+		const capabilities = legacy ? undefined : this.options.capabilities ?? CLIENT_FEATURES;
+
+		const session: MockSession = {
+			socket,
+			state,
+			cipher: new MockCipher(cipherName, secret, Buffer.from(msg.cipherSalt || "", "base64")),
+			codec: compression === "none" ? null : new PayloadCodec(compression, msg.compressionThreshold ?? 1024),
+			frameFormat,
+			integrity,
+			window: capabilities?.includes("stream_flow_control") && msg.streamWindow ? msg.streamWindow : null,
+			streams: new Map(),
+			cancelled: new Set()
+		};
+
+		this.sessions.add(session);
+
+		const update: RelayServerUpdateMessage = {
+			type: "server_update",
+			serverName: this.options.serverName || "Mock Server",
+			cipher: msg.ciphers ? cipherName : undefined,
+			frameFormat,
+			protocolVersion: legacy ? undefined : this.options.protocolVersion ?? PROTOCOL_VERSION,
+			minProtocolVersion: this.options.minProtocolVersion,
+			capabilities,
+			limits: this.options.limits,
+			compression: compression === "none" ? undefined : compression,
+			integrity: integrity || undefined,
+			sessionToken: state?.token,
+			resumed: !!resumed
+		};
+
+		if (cipherName === "aes-256-gcm") {
+			update.confirmation = session.cipher.seal(Buffer.alloc(0), handshakeTranscript(msg, update)).toString("base64");
+		}
+
+		this.rewriteUpdate?.(update);
+		socket.send(JSON.stringify(update));
+
+		if (resumed) {
+			for (const watch of this.watches.values()) {
+				if (watch.owner.state === resumed) {
+					watch.owner = session;
+				}
+			}
+		} else if (msg.resume) {
+			for (const [watchId, watch] of this.watches) {
+				if (watch.owner.state?.token === msg.resume.token) {
+					this.watches.delete(watchId);
+				}
+			}
+		}
+
+		if (resumed && msg.resume) {
+			for (const requestId of msg.resume.requests) {
+				const result = resumed.history.get(requestId);
+
+				if (result) {
+					this.respond(session, requestId, result.response);
+
+					if (result.stream) {
+						this.stream(session, requestId, result.stream);
+					}
+				}
+			}
+
+			for (const { requestId, nextSequence } of msg.resume.streams) {
+				const result = resumed.history.get(requestId);
+
+				if (result?.stream) {
+					this.stream(session, requestId, result.stream, nextSequence);
+				}
+			}
+		}
+
+		return session;
+	}
+
+	private decode(session: MockSession, payload: string, aad: Buffer) {
+		let data = session.cipher.open(Buffer.from(payload, "base64"), aad);
+
+		if (session.codec) {
+			data = session.codec.unpack(data);
+		}
+
+		return JSON.parse(data.toString("utf8"));
+	}
+
+	private seal(session: MockSession, data: Buffer, aad?: Buffer) {
+		return session.cipher.seal(session.codec ? session.codec.pack(data) : data, aad);
+	}
+
+	private respond(session: MockSession, requestId: number, response: MockResponse) {
+		session.socket.send(JSON.stringify({
+			type: "server_rpc_response",
+			clientId: "mock",
+			requestId,
+			response: this.seal(session, Buffer.from(JSON.stringify(response), "utf8"), associatedData("server_rpc_response", this.retagResponses ? requestId + 1 : requestId)).toString("base64")
+		}));
+	}
+
+	private stream(session: MockSession, requestId: number, chunks: Buffer[], from = 0) {
+		const contents = Buffer.concat(chunks);
+		const summary = session.integrity ? { length: contents.length, hash: digest(session.integrity, contents) } : {};
+
+		if (this.corruptStreams && chunks.length > 0) {
+			chunks[0] = Buffer.from(chunks[0]);
+			chunks[0][0] ^= 0xff;
+		}
+
+		if (from === 0) {
+			session.socket.send(JSON.stringify({ type: "server_rpc_stream_start", requestId }));
+		}
+
+		let index = from;
+
+		// Like gmsv_remote, only keep streamWindow chunks in flight until the client acknowledges them
+		const stream: MockStream = {
+			acked: from,
+			pump: () => {
+				while (index < chunks.length && (session.window === null || index - stream.acked < session.window)) {
+					if (session.cancelled.has(requestId) || session.socket.readyState !== WebSocket.OPEN) {
+						session.streams.delete(requestId);
+						return;
+					}
+
+					if (this.disconnectAfterChunks !== null && index - from >= this.disconnectAfterChunks) {
+						this.disconnectAfterChunks = null;
+						session.streams.delete(requestId);
+						session.socket.terminate();
+						return;
+					}
+
+					this.sendChunk(session, requestId, chunks, index++);
+				}
+
+				if (index === chunks.length) {
+					session.streams.delete(requestId);
+					session.socket.send(JSON.stringify({ type: "server_rpc_stream_stop", requestId, chunks: chunks.length, ...summary }));
+				}
+			}
+		};
+
+		session.streams.set(requestId, stream);
+		stream.pump();
+	}
+
+	private sendChunk(session: MockSession, requestId: number, chunks: Buffer[], index: number) {
+		const chunk = chunks[index];
+
+		this.streamed.set(requestId, (this.streamed.get(requestId) ?? 0) + 1);
+
+		if (session.frameFormat === "tagged") {
+			const sequence = this.outOfOrderStreams ? chunks.length - 1 - index : index;
+			const payload = this.seal(session, chunk, frameHeader(this.retagFrames ? requestId + 1 : requestId, sequence));
+
+			session.socket.send(encodeFrame({ requestId, sequence, payload }));
+		} else {
+			session.socket.send(JSON.stringify({ type: "server_rpc_stream_chunk", requestId }));
+			session.socket.send(this.seal(session, chunk));
+		}
+	}
+
+	private split(data: Buffer) {
+		const chunkSize = this.options.chunkSize || 16384;
+		const chunks: Buffer[] = [];
+
+		for (let offset = 0; offset < data.length; offset += chunkSize) {
+			chunks.push(data.subarray(offset, offset + chunkSize));
+		}
+
+		return chunks;
+	}
+
+	private dispatch(session: MockSession, requestId: number, action: string, payload: Record<string, unknown>) {
+		if (session.cancelled.has(requestId)) {
+			return;
+		}
+
+		const existed = typeof payload.path === "string" && this.entries.has(payload.path);
+		const result = this.handle(session, action, payload);
+
+		session.state?.history.set(requestId, result);
+
+		if (result.response.success) {
+			setImmediate(() => this.notify(this.changesFor(action, payload, existed)));
+		}
+
+		if (session.socket.readyState !== WebSocket.OPEN) {
+			return;
+		}
+
+		if (this.disconnectBeforeResponse) {
+			this.disconnectBeforeResponse = false;
+			session.socket.terminate();
+			return;
+		}
+
+		this.respond(session, requestId, result.response);
+
+		if (result.response.success && result.stream) {
+			this.stream(session, requestId, result.stream);
+		}
+	}
+
+	private handle(session: MockSession, action: string, payload: Record<string, unknown>): { response: MockResponse; stream?: Buffer[] } {
+		const target = payload.path as string;
+		const entry = this.entries.get(target);
+
+		if ([target, payload.from, payload.to].some((candidate) => typeof candidate === "string" && this.failPaths.has(candidate))) {
+			return { response: { success: false, error_code: "access_denied" } };
+		}
+
+		switch (action) {
+			case "FS.Stat":
+				if (!entry) {
+					return { response: { success: false, error_code: "file_not_found" } };
+				}
+
+				return {
+					response: {
+						success: true,
+						type: entry.type,
+						size: entry.type === "file" ? entry.data.length : 0,
+						created: entry.created,
+						modified: entry.modified
+					}
+				};
+			case "FS.ListFiles":
+				if (!entry) {
+					return { response: { success: false, error_code: "file_not_found" } };
+				}
+
+				if (entry.type !== "directory") {
+					return { response: { success: false, error_code: "not_a_directory" } };
+				}
+
+				return { response: { success: true, entries: this.children(target) } };
+			case "FS.Read":
+				if (!entry) {
+					return { response: { success: false, error_code: "file_not_found" } };
+				}
+
+				if (entry.type !== "file") {
+					return { response: { success: false, error_code: "not_a_file" } };
+				}
+
+				if (payload.offset !== undefined || payload.length !== undefined) {
+					const offset = (payload.offset as number | undefined) ?? 0;
+					const length = payload.length as number | undefined;
+
+					return { response: { success: true }, stream: this.split(entry.data.subarray(offset, length === undefined ? undefined : offset + length)) };
+				}
+
+				return { response: { success: true }, stream: this.split(entry.data) };
+			case "FS.Write":
+			case "FS.WriteAtomic": {
+				const data = Buffer.from(payload.data as string, "base64");
+				const offset = action === "FS.Write" ? payload.offset as number : 0;
+
+				if (session.integrity && payload.hash && payload.hash !== digest(session.integrity, data)) {
+					return { response: { success: false, error_code: "integrity_mismatch" } };
+				}
+
+				if (this.corruptWrites || this.failWrites > 0) {
+					this.failWrites = Math.max(0, this.failWrites - 1);
+					data[0] ^= 0xff;
+				}
+
+				const existing = entry && entry.type === "file" && action === "FS.Write" ? entry.data : Buffer.alloc(0);
+				const next = Buffer.alloc(Math.max(existing.length, offset + data.length));
+
+				existing.copy(next);
+				data.copy(next, offset);
+				this.writeEntry(target, next);
+
+				return { response: { success: true, hash: session.integrity ? digest(session.integrity, data) : undefined } };
+			}
+			case "FS.Truncate": {
+				if (!entry || entry.type !== "file") {
+					return { response: { success: false, error_code: "file_not_found" } };
+				}
+
+				const size = payload.size as number;
+				const next = Buffer.alloc(size);
+
+				entry.data.copy(next, 0, 0, Math.min(size, entry.data.length));
+				this.writeEntry(target, next);
+
+				return { response: { success: true, size } };
+			}
+			case "FS.Mkdir":
+				if (entry) {
+					return { response: { success: false, error_code: "directory_already_exists" } };
+				}
+
+				this.makeDirectories(target);
+
+				return { response: { success: true } };
+			case "FS.Delete":
+				if (!entry) {
+					return { response: { success: false, error_code: "file_not_found" } };
+				}
+
+				if (payload.recursive === false && this.children(target).length > 0) {
+					return { response: { success: false, error_code: "directory_not_empty" } };
+				}
+
+				for (const key of [...this.entries.keys()]) {
+					if (key === target || key.startsWith(target + "/")) {
+						this.entries.delete(key);
+					}
+				}
+
+				return { response: { success: true } };
+			case "FS.Copy":
+			case "FS.Rename": {
+				const from = payload.from as string;
+				const to = payload.to as string;
+
+				if (!this.entries.has(from)) {
+					return { response: { success: false, error_code: "file_not_found" } };
+				}
+
+				if (payload.overwrite === false && this.entries.has(to)) {
+					return { response: { success: false, error_code: "file_already_exists" } };
+				}
+
+				for (const [key, value] of [...this.entries]) {
+					if (key === from || key.startsWith(from + "/")) {
+						this.entries.set(to + key.substring(from.length), { ...value });
+
+						if (action === "FS.Rename") {
+							this.entries.delete(key);
+						}
+					}
+				}
+
+				return { response: { success: true } };
+			}
+			case "FS.Search":
+				return { response: { success: true }, stream: this.search(payload) };
+			case "FS.Watch": {
+				const watchId = `watch-${this.nextWatchId++}`;
+
+				this.watches.set(watchId, {
+					owner: session,
+					path: target,
+					recursive: !!payload.recursive,
+					excludes: ((payload.excludes as string[]) || []).map(globToRegExp)
+				});
+
+				return { response: { success: true, watchId } };
+			}
+			case "FS.Unwatch":
+				this.watches.delete(payload.watchId as string);
+
+				return { response: { success: true } };
+			default:
+				return { response: { success: false, error_code: "unknown_action" } };
+		}
+	}
+
+	private changesFor(action: string, payload: Record<string, unknown>, existed: boolean): RemoteFileChange[] {
+		switch (action) {
+			case "FS.Write":
+			case "FS.WriteAtomic":
+				return [{ type: existed ? "changed" : "created", path: payload.path as string }];
+			case "FS.Truncate":
+				return [{ type: "changed", path: payload.path as string }];
+			case "FS.Mkdir":
+				return [{ type: "created", path: payload.path as string }];
+			case "FS.Delete":
+				return [{ type: "deleted", path: payload.path as string }];
+			case "FS.Copy":
+				return [{ type: "created", path: payload.to as string }];
+			case "FS.Rename":
+				return [{ type: "deleted", path: payload.from as string }, { type: "created", path: payload.to as string }];
+			default:
+				return [];
+		}
+	}
+
+	private notify(changes: RemoteFileChange[]) {
+		for (const [watchId, watch] of this.watches) {
+			const matching = changes.filter((change) => this.matches(watch, change.path));
+
+			if (matching.length === 0 || watch.owner.socket.readyState !== WebSocket.OPEN) {
+				continue;
+			}
+
+			watch.owner.socket.send(JSON.stringify({
+				type: "server_fs_change",
+				watchId,
+				payload: this.seal(watch.owner, Buffer.from(JSON.stringify({ changes: matching }), "utf8"), associatedData("server_fs_change", watchId)).toString("base64")
+			}));
+		}
+	}
+
+	private matches(watch: MockWatch, filePath: string) {
+		const prefix = watch.path === "/" ? "/" : watch.path + "/";
+
+		if (filePath !== watch.path && !filePath.startsWith(prefix)) {
+			return false;
+		}
+
+		const relative = filePath.substring(prefix.length);
+
+		if (!watch.recursive && relative.includes("/")) {
+			return false;
+		}
+
+		return !watch.excludes.some((exclude) => exclude.test(filePath) || exclude.test(relative));
+	}
+
+	private children(directory: string) {
+		const prefix = directory === "/" ? "/" : directory + "/";
+
+		return [...this.entries]
+			.filter(([key]) => key !== directory && key.startsWith(prefix) && !key.substring(prefix.length).includes("/"))
+			.map(([key, value]) => ({
+				name: key.substring(prefix.length),
+				type: value.type,
+				lastModified: value.modified,
+				size: value.type === "file" ? value.data.length : undefined
+			}));
+	}
+
+	private search(payload: Record<string, unknown>) {
+		const query = payload.query as string;
+		const flags = payload.caseSensitive ? "g" : "gi";
+		const source = payload.useRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		const pattern = new RegExp(payload.wholeWord ? `\\b${source}\\b` : source, flags);
+		const chunks: Buffer[] = [];
+
+		for (const [file, entry] of this.entries) {
+			if (entry.type !== "file") {
+				continue;
+			}
+
+			const results: SearchChunk[] = [];
+
+			entry.data.toString("utf8").split("\n").forEach((lineText, line) => {
+				for (const match of lineText.matchAll(pattern)) {
+					results.push({ file, line, lineText, matchStart: match.index!, matchEnd: match.index! + match[0].length });
+				}
+			});
+
+			if (results.length > 0) {
+				chunks.push(Buffer.from(JSON.stringify(results), "utf8"));
+			}
+		}
+
+		return chunks;
+	}
+}
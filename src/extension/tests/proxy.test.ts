@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import { createProxyAgent, DIRECT_PROXY, ProxyError, proxyFor } from "../modules/proxy";
+import { RelayClient } from "../modules/relay";
+import { MockProxy } from "./mock/mockProxy";
+import { MockRelay } from "./mock/mockRelay";
+
+suite("Proxy support", () => {
+	let server: MockRelay;
+	let relay: RelayClient;
+
+	setup(async () => {
+		server = await MockRelay.start();
+		relay = new RelayClient("mock");
+	});
+
+	teardown(async () => {
+		relay.disconnect();
+		await server.close();
+	});
+
+	for (const start of [MockProxy.startHttp, MockProxy.startSocks]) {
+		test(`connects through a ${start === MockProxy.startHttp ? "HTTP CONNECT" : "SOCKS5"} proxy`, async () => {
+			const proxy = await start();
+
+			try {
+				await relay.connect(server.url, server.address, server.password, null, proxy.url);
+
+				assert.ok(relay.isConnected());
+				assert.strictEqual(proxy.connections, 1);
+			} finally {
+				relay.disconnect();
+				await proxy.close();
+			}
+		});
+	}
+
+	test("prefers the per-server override", () => {
+		assert.strictEqual(proxyFor(server.url, "socks5://proxy:1080"), "socks5://proxy:1080");
+		assert.strictEqual(proxyFor(server.url, DIRECT_PROXY), null);
+	});
+
+	test("rejects unsupported proxies", async () => {
+		assert.throws(() => createProxyAgent("ftp://proxy:21"), ProxyError);
+		assert.throws(() => createProxyAgent("not a url"), ProxyError);
+
+		await assert.rejects(relay.connect(server.url, server.address, server.password, null, "ftp://proxy:21"), ProxyError);
+	});
+});
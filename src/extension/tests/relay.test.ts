@@ -0,0 +1,423 @@
+import * as assert from "assert";
+import { CLIENT_FEATURES } from "../modules/protocol";
+import { RelayClient } from "../modules/relay";
+import { MockRelay, MockRelayOptions } from "./mock/mockRelay";
+
+suite("RelayClient", () => {
+	let server: MockRelay;
+	let relay: RelayClient;
+
+	async function start(options: MockRelayOptions = {}, encryptionKey: string | null = null) {
+		server = await MockRelay.start(options);
+		relay = new RelayClient("mock");
+
+		await relay.connect(server.url, server.address, server.password, encryptionKey);
+	}
+
+	function read(path: string) {
+		return relay.rpc("FS.Read", { path }).then((res) => {
+			assert.ok(res.success);
+
+			const buffer: Buffer[] = [];
+
+			return relay.streamFillBuffer(res.requestId, buffer).then(() => Buffer.concat(buffer).toString("utf8"));
+		});
+	}
+
+	function pausedRead(path: string) {
+		return relay.rpc("FS.Read", { path }).then((res) => {
+			assert.ok(res.success);
+
+			const chunks: Buffer[] = [];
+
+			const done = new Promise<string>((resolve, reject) => relay.stream(res.requestId, (chunk) => {
+				chunks.push(chunk);
+
+				if (chunks.length === 1) {
+					relay.pauseStream(res.requestId);
+				}
+			}, () => resolve(Buffer.concat(chunks).toString("utf8")), reject));
+
+			return { requestId: res.requestId, chunks, done };
+		});
+	}
+
+	function acks() {
+		return server.received.flatMap((msg) => msg.type === "client_rpc_stream_ack" ? [msg.consumed] : []);
+	}
+
+	function wait(ms: number) {
+		return new Promise((resolve) => setTimeout(resolve, ms));
+	}
+
+	teardown(async () => {
+		relay?.disconnect();
+		await server?.close();
+	});
+
+	test("negotiates capabilities with the server", async () => {
+		await start({ serverName: "Sandbox", limits: { maxFrameSize: 4096 } });
+
+		assert.ok(relay.isConnected());
+		assert.strictEqual(relay.name(), "Sandbox");
+		assert.ok(relay.supports("rpc_cancel"));
+		assert.strictEqual(relay.capabilities()?.limits.maxFrameSize, 4096);
+	});
+
+	test("falls back to legacy features for version 1 servers", async () => {
+		await start({ protocolVersion: 1, frameFormat: "legacy", files: { "/init.lua": "" } });
+
+		assert.ok(relay.supports("FS.Read"));
+		assert.ok(!relay.supports("rpc_cancel"));
+		assert.strictEqual(await read("/init.lua"), "");
+	});
+
+	for (const encryptionKey of [null, "secret"]) {
+		for (const frameFormat of ["tagged", "legacy"] as const) {
+			test(`streams a file (${frameFormat} frames, ${encryptionKey ? "encrypted" : "plaintext"})`, async () => {
+				const contents = "print('hello')\n".repeat(200);
+
+				await start({ encryptionKey: encryptionKey || undefined, frameFormat, chunkSize: 64, files: { "/init.lua": contents } }, encryptionKey);
+
+				assert.strictEqual(await read("/init.lua"), contents);
+			});
+		}
+	}
+
+	for (const integrity of ["sha256", "crc32"] as const) {
+		test(`verifies streams with ${integrity}`, async () => {
+			await start({ integrity, chunkSize: 8, files: { "/init.lua": "print('verified')" } });
+
+			assert.strictEqual(relay.integrityAlgorithm(), integrity);
+			assert.strictEqual(await read("/init.lua"), "print('verified')");
+
+			server.corruptStreams = true;
+
+			await assert.rejects(read("/init.lua"), (err: { error_code: string }) => err.error_code === "integrity_mismatch");
+		});
+	}
+
+	test("skips verification when the server does not support it", async () => {
+		await start({ integrity: null, files: { "/init.lua": "print('unverified')" } });
+
+		assert.strictEqual(relay.integrityAlgorithm(), null);
+		assert.strictEqual(await read("/init.lua"), "print('unverified')");
+	});
+
+	test("compresses payloads when both sides support it", async () => {
+		const contents = "a".repeat(8192);
+
+		await start({ compression: "br" });
+
+		const res = await relay.rpc("FS.Write", { path: "/big.txt", offset: 0, data: Buffer.from(contents).toString("base64") });
+
+		assert.ok(res.success);
+		assert.strictEqual(server.readFileSync("/big.txt")?.toString("utf8"), contents);
+	});
+
+	test("rejects the connection when the hello fails", async () => {
+		server = await MockRelay.start();
+		server.rejectHello = true;
+		relay = new RelayClient("mock");
+
+		await assert.rejects(relay.connect(server.url, server.address, server.password, null));
+		relay.stopReconnecting();
+	});
+
+	test("refuses servers that only support unauthenticated encryption", async () => {
+		await assert.rejects(start({ encryptionKey: "secret", cipher: "xor" }, "secret"));
+		assert.ok(server.received.some((msg) => msg.type === "client_hello" && msg.ciphers?.join() === "aes-256-gcm"));
+		assert.ok(!relay.isConnected());
+	});
+
+	test("rejects requests whose action was rewritten", async () => {
+		await start({ encryptionKey: "secret", files: { "/init.lua": "print('keep')" } }, "secret");
+		server.rewriteActions.set("FS.Stat", "FS.Delete");
+
+		const res = await relay.rpc("FS.Stat", { path: "/init.lua" });
+
+		assert.ok(!res.success);
+		assert.ok(server.readFileSync("/init.lua"));
+		assert.ok(!server.rpcLog.some((rpc) => rpc.action === "FS.Delete"));
+	});
+
+	test("rejects responses moved to another request", async () => {
+		await start({ encryptionKey: "secret", files: { "/init.lua": "" } }, "secret");
+		server.retagResponses = true;
+
+		const res = await relay.rpc("FS.Stat", { path: "/init.lua" });
+
+		assert.ok(!res.success);
+		assert.strictEqual(res.error_code, "decrypt_failed");
+	});
+
+	test("refuses handshakes changed in transit", async () => {
+		server = await MockRelay.start({ encryptionKey: "secret" });
+		server.rewriteUpdate = (update) => {
+			update.capabilities = update.capabilities?.filter((feature) => feature !== "FS.WriteAtomic");
+		};
+		relay = new RelayClient("mock");
+
+		await assert.rejects(relay.connect(server.url, server.address, server.password, "secret"));
+		assert.ok(!relay.isConnected());
+	});
+
+	test("times out when the server never responds", async () => {
+		await start();
+		server.silentActions.add("FS.Stat");
+
+		const res = await relay.rpc("FS.Stat", { path: "/" }, { timeout: 100 });
+
+		assert.ok(!res.success);
+		assert.strictEqual(res.error_code, "timeout");
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		assert.ok(server.received.some((msg) => msg.type === "client_rpc_cancel"));
+	});
+
+	test("cancels in-flight requests", async () => {
+		await start();
+		server.responseDelay = 500;
+
+		const controller = new AbortController();
+		const pending = relay.rpc("FS.Stat", { path: "/" }, { signal: controller.signal });
+
+		controller.abort();
+
+		const res = await pending;
+
+		assert.strictEqual(res.error_code, "cancelled");
+	});
+
+	test("fails pending requests when the session cannot be resumed", async () => {
+		await start();
+		server.allowResume = false;
+		server.responseDelay = 500;
+
+		const pending = relay.rpc("FS.Stat", { path: "/" });
+
+		setTimeout(() => server.disconnectClients(), 50);
+
+		const res = await pending;
+
+		assert.strictEqual(res.error_code, "connection_lost");
+	});
+
+	test("resumes interrupted streams after reconnecting", async () => {
+		const contents = "print('resumed')\n".repeat(20);
+
+		await start({ chunkSize: 16, files: { "/init.lua": contents } });
+		server.disconnectAfterChunks = 3;
+
+		assert.strictEqual(await read("/init.lua"), contents);
+		assert.ok(server.received.some((msg) => msg.type === "client_hello" && msg.resume && msg.resume.streams.length === 1));
+	});
+
+	test("resumes responses lost in a disconnect", async () => {
+		await start({ files: { "/init.lua": "" } });
+		server.disconnectBeforeResponse = true;
+
+		const res = await relay.rpc("FS.Stat", { path: "/init.lua" });
+
+		assert.ok(res.success);
+	});
+
+	test("holds requests made before the handshake completes", async () => {
+		await start({ encryptionKey: "secret", files: { "/init.lua": "" } }, "secret");
+
+		let early: ReturnType<RelayClient["rpc"]> | undefined;
+
+		relay.on("trace", (direction, message) => {
+			if (direction === "out" && message.type === "client_hello" && !early) {
+				early = relay.rpc("FS.Stat", { path: "/init.lua" }, { timeout: 4000 });
+			}
+		});
+
+		const reconnected = new Promise((resolve) => relay.once("connected", resolve));
+
+		server.disconnectClients();
+		await reconnected;
+
+		assert.ok((await early!).success);
+	});
+
+	test("keeps a window of unacknowledged chunks while a stream is paused", async () => {
+		const contents = "0123".repeat(40);
+
+		await start({ chunkSize: 4, files: { "/init.lua": contents } });
+
+		const { requestId, chunks, done } = await pausedRead("/init.lua");
+
+		await wait(100);
+
+		assert.strictEqual(chunks.length, 1);
+		assert.strictEqual(server.streamed.get(requestId), 16);
+		assert.deepStrictEqual(acks(), []);
+
+		relay.resumeStream(requestId);
+
+		assert.strictEqual(await done, contents);
+		assert.strictEqual(server.streamed.get(requestId), 40);
+		assert.deepStrictEqual(acks(), [8, 16, 24, 32, 40]);
+	});
+
+	test("does not acknowledge chunks when the server lacks flow control", async () => {
+		const contents = "0123".repeat(40);
+
+		await start({ chunkSize: 4, capabilities: CLIENT_FEATURES.filter((feature) => feature !== "stream_flow_control"), files: { "/init.lua": contents } });
+
+		const { requestId, done } = await pausedRead("/init.lua");
+
+		await wait(100);
+
+		assert.strictEqual(server.streamed.get(requestId), 40);
+
+		relay.resumeStream(requestId);
+
+		assert.strictEqual(await done, contents);
+		assert.deepStrictEqual(acks(), []);
+	});
+
+	test("backs off between reconnect attempts and gives up after the limit", async () => {
+		await start();
+
+		const delays: number[] = [];
+
+		relay.on("reconnecting", (attempt: number, delay: number) => {
+			delays.push(delay);
+			setImmediate(() => relay.retryNow());
+		});
+
+		const gaveUp = new Promise((resolve) => relay.once("gaveUp", resolve));
+
+		await server.close();
+
+		assert.strictEqual(await gaveUp, relay.maxReconnectAttempts());
+		assert.strictEqual(delays.length, relay.maxReconnectAttempts());
+		assert.ok(!relay.isReconnecting());
+
+		delays.forEach((delay, index) => {
+			const base = Math.min(1500 * 2 ** index, 60000);
+
+			assert.ok(delay >= base * 0.8 && delay <= base * 1.2, `attempt ${index + 1} waited ${delay}ms`);
+		});
+	});
+
+	test("fails queued requests after giving up", async () => {
+		await start({ files: { "/init.lua": "" } });
+
+		const reconnecting = new Promise((resolve) => relay.once("reconnecting", resolve));
+
+		await server.close();
+		await reconnecting;
+
+		const queued = relay.rpc("FS.Stat", { path: "/init.lua" });
+
+		relay.stopReconnecting();
+
+		assert.strictEqual((await queued).error_code, "connection_lost");
+	});
+
+	test("replays queued requests after reconnecting", async () => {
+		await start({ files: { "/init.lua": "print('queued')" } });
+
+		const reconnecting = new Promise((resolve) => relay.once("reconnecting", resolve));
+
+		server.disconnectClients();
+		await reconnecting;
+
+		assert.ok(relay.isQueueing());
+
+		const stat = relay.rpc("FS.Stat", { path: "/init.lua" });
+		const contents = read("/init.lua");
+
+		assert.strictEqual(server.rpcLog.length, 0);
+
+		relay.retryNow();
+
+		assert.ok((await stat).success);
+		assert.strictEqual(await contents, "print('queued')");
+		assert.deepStrictEqual(server.rpcLog.map((rpc) => rpc.action), ["FS.Stat", "FS.Read"]);
+	});
+
+	test("rejects requests past the queue size", async () => {
+		await start({ files: { "/init.lua": "" } });
+
+		const reconnecting = new Promise((resolve) => relay.once("reconnecting", resolve));
+
+		server.disconnectClients();
+		await reconnecting;
+
+		const queued = Array.from({ length: 50 }, () => relay.rpc("FS.Stat", { path: "/init.lua" }));
+
+		assert.strictEqual((await relay.rpc("FS.Stat", { path: "/init.lua" })).error_code, "queue_full");
+
+		relay.retryNow();
+
+		for (const res of await Promise.all(queued)) {
+			assert.ok(res.success);
+		}
+	});
+
+	test("expires queued requests after the queue age", async () => {
+		await start({ files: { "/init.lua": "" } });
+		relay["queueOptions"] = () => ({ enabled: true, maxSize: 50, maxAge: 100 });
+
+		const reconnecting = new Promise((resolve) => relay.once("reconnecting", resolve));
+
+		server.disconnectClients();
+		await reconnecting;
+
+		const res = await relay.rpc("FS.Stat", { path: "/init.lua" });
+
+		assert.strictEqual(res.error_code, "connection_lost");
+		assert.ok(relay.isReconnecting());
+	});
+
+	test("fails open streams when the session cannot be resumed", async () => {
+		await start({ chunkSize: 4, files: { "/init.lua": "print('lost')" } });
+		server.allowResume = false;
+		server.disconnectAfterChunks = 1;
+
+		await assert.rejects(read("/init.lua"), (err: { error_code: string }) => err.error_code === "session_lost");
+	});
+
+	test("fails open streams when disconnecting", async () => {
+		await start();
+
+		const pending = relay.streamFillBuffer(1000, []);
+
+		relay.disconnect();
+
+		await assert.rejects(pending, (err: { error_code: string }) => err.error_code === "connection_lost");
+	});
+
+	test("reports out of order stream chunks", async () => {
+		await start({ chunkSize: 4, files: { "/init.lua": "0123456789" } });
+		server.outOfOrderStreams = true;
+
+		await assert.rejects(read("/init.lua"), (err: { error_code: string }) => err.error_code === "stream_out_of_order");
+	});
+
+	test("rejects encrypted frames whose header was rewritten", async () => {
+		await start({ encryptionKey: "secret", frameFormat: "tagged", files: { "/init.lua": "print('tagged')" } }, "secret");
+		server.retagFrames = true;
+
+		await assert.rejects(read("/init.lua"), (err: { error_code: string }) => err.error_code === "decrypt_failed");
+	});
+
+	test("ignores malformed frames", async () => {
+		await start({ files: { "/init.lua": "ok" } });
+		server.sendBadFrame();
+
+		assert.strictEqual(await read("/init.lua"), "ok");
+	});
+
+	test("rejects payloads larger than the server limit", async () => {
+		await start({ limits: { maxFrameSize: 256 } });
+
+		const res = await relay.rpc("FS.Write", { path: "/big.txt", offset: 0, data: Buffer.alloc(1024).toString("base64") });
+
+		assert.strictEqual(res.error_code, "payload_too_large");
+	});
+});
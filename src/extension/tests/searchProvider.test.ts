@@ -0,0 +1,80 @@
+import * as assert from "assert";
+import { RelayPool } from "../modules/relayPool";
+import { remoteUri } from "../providers/fileSystemProvider";
+import { SearchProvider } from "../providers/searchProvider";
+import { SearchChunk, SearchOptions } from "../types";
+import { MockRelay } from "./mock/mockRelay";
+
+const options: SearchOptions = {
+	caseSensitive: false,
+	wholeWord: false,
+	useRegex: false,
+	includeFiles: "",
+	excludeFiles: ""
+};
+
+suite("SearchProvider", () => {
+	let servers: MockRelay[];
+	let relays: RelayPool;
+	let provider: SearchProvider;
+
+	setup(async () => {
+		servers = await Promise.all([
+			MockRelay.start({ files: { "/lua/a.lua": "print('hook')\nhook.Add()" } }),
+			MockRelay.start({ files: { "/lua/b.lua": "local Hook = true" } })
+		]);
+
+		relays = new RelayPool();
+		provider = new SearchProvider(relays);
+
+		await Promise.all(servers.map((server, index) => relays.getOrCreate(`server${index}`).connect(server.url, server.address, server.password, null)));
+	});
+
+	teardown(async () => {
+		provider.stop();
+
+		for (const relay of relays.all()) {
+			relay.disconnect();
+		}
+
+		await Promise.all(servers.map((server) => server.close()));
+	});
+
+	function collect(query: string, searchOptions: SearchOptions) {
+		return new Promise<SearchChunk[]>((resolve, reject) => {
+			const results: SearchChunk[] = [];
+
+			provider.resultStream((chunk) => results.push(...chunk));
+			provider.end(() => resolve(results));
+			provider.search(query, searchOptions).catch(reject);
+		});
+	}
+
+	test("merges results from every connected server", async () => {
+		const results = await collect("hook", options);
+		const files = new Set(results.map((result) => result.file));
+
+		assert.strictEqual(results.length, 3);
+		assert.deepStrictEqual([...files].sort(), [
+			remoteUri("server0", "/lua/a.lua").toString(),
+			remoteUri("server1", "/lua/b.lua").toString()
+		]);
+		assert.ok(!provider.isSearching());
+	});
+
+	test("honours search options", async () => {
+		const results = await collect("hook\\.", { ...options, caseSensitive: true, useRegex: true });
+
+		assert.strictEqual(results.length, 1);
+		assert.strictEqual(results[0].line, 1);
+	});
+
+	test("rejects when no server is connected", async () => {
+		for (const relay of relays.all()) {
+			relay.disconnect();
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		await assert.rejects(provider.search("hook", options), /Not connected/);
+	});
+});
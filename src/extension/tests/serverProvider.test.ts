@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import { describeServer, serverUrl, validateServerName } from "../providers/serverProvider";
+import { Server } from "../types";
+
+const server: Server = {
+	name: "Sandbox",
+	address: "192.168.1.20:27015",
+	relay: "wss://relay.example.com",
+	password: "password",
+	encryptionKey: ""
+};
+
+suite("Server settings", () => {
+	test("connects through the relay by default", () => {
+		assert.strictEqual(serverUrl(server), "wss://relay.example.com");
+		assert.strictEqual(describeServer(server), "192.168.1.20:27015 via wss://relay.example.com");
+	});
+
+	test("connects straight to the listener in direct mode", () => {
+		assert.strictEqual(serverUrl({ ...server, mode: "direct", relay: "", listener: "ws://192.168.1.20:27080" }), "ws://192.168.1.20:27080");
+		assert.strictEqual(serverUrl({ ...server, mode: "direct", relay: "" }), undefined);
+		assert.strictEqual(describeServer({ ...server, mode: "direct", relay: "" }), "192.168.1.20:27015 direct via an unset listener");
+	});
+
+	test("only accepts names that are valid URI authorities", () => {
+		assert.strictEqual(validateServerName("Build Server", [server]), null);
+		assert.ok(validateServerName("admin@sandbox", [server]));
+		assert.ok(validateServerName("sandbox:2", [server]));
+		assert.ok(validateServerName(" ", [server]));
+		assert.ok(validateServerName("SANDBOX", [server]));
+	});
+});
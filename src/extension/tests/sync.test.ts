@@ -0,0 +1,223 @@
+import * as assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { globToRegExp } from "../modules/glob";
+import { RelayPool } from "../modules/relayPool";
+import { isSafeEntryName, planSync, scanLocal } from "../modules/sync";
+import { RemoteFileSystemProvider } from "../providers/fileSystemProvider";
+import { FolderSync } from "../providers/syncProvider";
+import { SyncMapping, SyncTree } from "../types";
+import { createContext } from "./mock/context";
+import { MockRelay } from "./mock/mockRelay";
+
+function tree(entries: Record<string, number>): SyncTree {
+	return new Map(Object.entries(entries).map(([filePath, modified]) => [filePath, { size: 1, modified }]));
+}
+
+suite("Sync plan", () => {
+	test("pushes local changes and removes synced files missing locally", () => {
+		const actions = planSync(tree({ "a.lua": 2, "b.lua": 1 }), tree({ "b.lua": 1, "c.lua": 1, "d.lua": 1 }), "push", {
+			"b.lua": { local: 1, remote: 1 },
+			"c.lua": { local: 1, remote: 1 }
+		});
+
+		assert.deepStrictEqual(actions, [
+			{ type: "upload", path: "a.lua" },
+			{ type: "deleteRemote", path: "c.lua" }
+		]);
+	});
+
+	test("pulls server changes and removes synced files missing on the server", () => {
+		const actions = planSync(tree({ "a.lua": 1, "b.lua": 1, "d.lua": 1 }), tree({ "b.lua": 2, "c.lua": 1 }), "pull", {
+			"a.lua": { local: 1, remote: 1 },
+			"b.lua": { local: 1, remote: 1 }
+		});
+
+		assert.deepStrictEqual(actions, [
+			{ type: "deleteLocal", path: "a.lua" },
+			{ type: "download", path: "b.lua" },
+			{ type: "download", path: "c.lua" }
+		]);
+	});
+
+	test("uses the last sync to tell deletions from new files in two-way mode", () => {
+		const baseline = {
+			"deleted-remotely.lua": { local: 1, remote: 1 },
+			"deleted-locally.lua": { local: 1, remote: 1 },
+			"edited-locally.lua": { local: 1, remote: 1 },
+			"edited-both.lua": { local: 1, remote: 1 }
+		};
+		const local = tree({ "deleted-remotely.lua": 1, "edited-locally.lua": 2, "edited-both.lua": 2, "new-local.lua": 1 });
+		const remote = tree({ "deleted-locally.lua": 1, "edited-locally.lua": 1, "edited-both.lua": 3, "new-remote.lua": 1 });
+
+		assert.deepStrictEqual(planSync(local, remote, "two-way", baseline), [
+			{ type: "deleteRemote", path: "deleted-locally.lua" },
+			{ type: "deleteLocal", path: "deleted-remotely.lua" },
+			{ type: "conflict", path: "edited-both.lua" },
+			{ type: "upload", path: "edited-locally.lua" },
+			{ type: "upload", path: "new-local.lua" },
+			{ type: "download", path: "new-remote.lua" }
+		]);
+	});
+
+	test("rejects entry names that leave their folder", () => {
+		assert.ok(isSafeEntryName("init.lua"));
+		assert.ok(isSafeEntryName("..hidden"));
+		assert.ok(!isSafeEntryName(".."));
+		assert.ok(!isSafeEntryName("."));
+		assert.ok(!isSafeEntryName("../init.lua"));
+		assert.ok(!isSafeEntryName("..\\init.lua"));
+	});
+
+	test("skips ignored files when scanning", async () => {
+		const directory = fs.mkdtempSync(path.join(os.tmpdir(), "gmod-remote-sync-"));
+
+		try {
+			fs.mkdirSync(path.join(directory, "lua", "autorun"), { recursive: true });
+			fs.mkdirSync(path.join(directory, ".git"));
+			fs.writeFileSync(path.join(directory, "lua", "autorun", "init.lua"), "print('init')");
+			fs.writeFileSync(path.join(directory, "lua", "notes.txt"), "todo");
+			fs.writeFileSync(path.join(directory, ".git", "HEAD"), "ref");
+
+			const scanned = await scanLocal(directory, [".git/**", "**/*.txt"].map(globToRegExp));
+
+			assert.deepStrictEqual([...scanned.keys()], ["lua/autorun/init.lua"]);
+		} finally {
+			fs.rmSync(directory, { recursive: true, force: true });
+		}
+	});
+});
+
+suite("FolderSync", () => {
+	let server: MockRelay;
+	let relays: RelayPool;
+	let sync: FolderSync;
+	let directory: string;
+	let mapping: SyncMapping;
+
+	setup(async () => {
+		server = await MockRelay.start({
+			files: {
+				"/addons/demo/lua/sv_remote.lua": "-- from the server"
+			}
+		});
+
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "gmod-remote-sync-"));
+		fs.mkdirSync(path.join(directory, "lua"));
+		fs.writeFileSync(path.join(directory, "lua", "cl_local.lua"), "-- from disk");
+
+		const context = createContext();
+
+		relays = new RelayPool();
+		sync = new FolderSync(relays, new RemoteFileSystemProvider(relays, context), context);
+		mapping = { server: "mock", local: directory, remote: "/addons/demo/", mode: "two-way" };
+
+		await relays.getOrCreate("mock").connect(server.url, server.address, server.password, null);
+	});
+
+	teardown(async () => {
+		sync.dispose();
+		relays.get("mock")?.disconnect();
+		await server.close();
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	test("syncs new files in both directions and then propagates deletions", async () => {
+		const first = await sync.plan(mapping);
+
+		assert.deepStrictEqual(first.actions, [
+			{ type: "upload", path: "lua/cl_local.lua" },
+			{ type: "download", path: "lua/sv_remote.lua" }
+		]);
+		assert.deepStrictEqual(await sync.apply(first), { applied: 2, conflicts: 0, failed: [] });
+		assert.strictEqual(server.readFileSync("/addons/demo/lua/cl_local.lua")?.toString("utf8"), "-- from disk");
+		assert.strictEqual(fs.readFileSync(path.join(directory, "lua", "sv_remote.lua"), "utf8"), "-- from the server");
+		assert.deepStrictEqual((await sync.plan(mapping)).actions, []);
+
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		fs.rmSync(path.join(directory, "lua", "cl_local.lua"));
+		server.writeFileSync("/addons/demo/lua/sv_remote.lua", "-- edited on the server");
+
+		const second = await sync.plan(mapping);
+
+		assert.deepStrictEqual(second.actions, [
+			{ type: "deleteRemote", path: "lua/cl_local.lua" },
+			{ type: "download", path: "lua/sv_remote.lua" }
+		]);
+
+		await sync.apply(second);
+
+		assert.strictEqual(server.readFileSync("/addons/demo/lua/cl_local.lua"), undefined);
+		assert.strictEqual(fs.readFileSync(path.join(directory, "lua", "sv_remote.lua"), "utf8"), "-- edited on the server");
+	});
+
+	test("records files that already match as synced", async () => {
+		server.writeFileSync("/addons/demo/lua/sh_same.lua", "-- same");
+		server.writeFileSync("/addons/demo/lua/sh_edited.lua", "-- server");
+		fs.writeFileSync(path.join(directory, "lua", "sh_same.lua"), "-- same");
+		fs.writeFileSync(path.join(directory, "lua", "sh_edited.lua"), "-- client");
+
+		const expected = [
+			{ type: "upload", path: "lua/cl_local.lua" },
+			{ type: "conflict", path: "lua/sh_edited.lua" },
+			{ type: "download", path: "lua/sv_remote.lua" }
+		];
+
+		assert.deepStrictEqual((await sync.plan(mapping)).actions, expected);
+		assert.deepStrictEqual((await sync.plan(mapping)).actions, expected);
+	});
+
+	test("resolves conflicts by keeping the chosen side", async () => {
+		server.writeFileSync("/addons/demo/lua/sh_edited.lua", "-- server");
+		fs.writeFileSync(path.join(directory, "lua", "sh_edited.lua"), "-- client");
+
+		const plan = await sync.plan(mapping);
+
+		assert.deepStrictEqual(await sync.apply(plan, [{ type: "download", path: "lua/sh_edited.lua" }]), { applied: 1, conflicts: 0, failed: [] });
+		assert.strictEqual(fs.readFileSync(path.join(directory, "lua", "sh_edited.lua"), "utf8"), "-- server");
+		assert.ok(!(await sync.plan(mapping)).actions.some((action) => action.path === "lua/sh_edited.lua"));
+	});
+
+	test("never touches files outside the sync folder", async () => {
+		const outside = path.join(path.dirname(directory), `${path.basename(directory)}-victim.lua`);
+
+		fs.writeFileSync(outside, "-- keep me");
+
+		try {
+			const result = await sync.apply({ mapping, actions: [{ type: "deleteLocal", path: `../${path.basename(outside)}` }] });
+
+			assert.strictEqual(result.failed.length, 1);
+			assert.strictEqual(fs.readFileSync(outside, "utf8"), "-- keep me");
+		} finally {
+			fs.rmSync(outside, { force: true });
+		}
+	});
+
+	test("keeps skipped changes for the next sync", async () => {
+		fs.writeFileSync(path.join(directory, "lua", "sh_shared.lua"), "-- shared");
+
+		const plan = await sync.plan({ ...mapping, mode: "push" });
+
+		assert.deepStrictEqual(plan.actions, [
+			{ type: "upload", path: "lua/cl_local.lua" },
+			{ type: "upload", path: "lua/sh_shared.lua" }
+		]);
+
+		await sync.apply(plan, plan.actions.slice(0, 1));
+
+		assert.strictEqual(server.readFileSync("/addons/demo/lua/sh_shared.lua"), undefined);
+		assert.deepStrictEqual((await sync.plan({ ...mapping, mode: "push" })).actions, [
+			{ type: "upload", path: "lua/sh_shared.lua" }
+		]);
+	});
+
+	test("never deletes files that were not synced before", async () => {
+		assert.deepStrictEqual((await sync.plan({ ...mapping, mode: "push" })).actions, [
+			{ type: "upload", path: "lua/cl_local.lua" }
+		]);
+		assert.deepStrictEqual((await sync.plan({ ...mapping, mode: "pull" })).actions, [
+			{ type: "download", path: "lua/sv_remote.lua" }
+		]);
+	});
+});
@@ -0,0 +1,115 @@
+import * as assert from "assert";
+import { CLIENT_FEATURES } from "../modules/protocol";
+import { RelayPool } from "../modules/relayPool";
+import { createLineFilter, LineSplitter, logLevel } from "../modules/tail";
+import { RemoteFileSystemProvider, remoteUri } from "../providers/fileSystemProvider";
+import { RemoteTail } from "../providers/tailProvider";
+import { createContext } from "./mock/context";
+import { MockRelay } from "./mock/mockRelay";
+
+suite("Tail lines", () => {
+	test("splits lines across chunks and multi-byte characters", () => {
+		const splitter = new LineSplitter();
+		const text = Buffer.from("first\r\nsecönd\nthi", "utf8");
+		const split = text.indexOf(0xc3) + 1;
+
+		assert.deepStrictEqual(splitter.push(text.subarray(0, split)), ["first"]);
+		assert.deepStrictEqual(splitter.push(text.subarray(split)), ["secönd"]);
+		assert.deepStrictEqual(splitter.push(Buffer.from("rd\n")), ["third"]);
+	});
+
+	test("filters by log level and pattern", () => {
+		const lines = ["[ERROR] lua/autorun/init.lua:3: attempt to index nil", "Warning: unknown command", "Player joined", "Player error count reset"];
+
+		assert.deepStrictEqual(lines.map(logLevel), ["error", "warning", "info", "error"]);
+		assert.deepStrictEqual(lines.filter(createLineFilter(null, "warning")), [lines[0], lines[1], lines[3]]);
+		assert.deepStrictEqual(lines.filter(createLineFilter(/^Player/, "error")), [lines[3]]);
+	});
+});
+
+suite("RemoteTail", () => {
+	let server: MockRelay;
+	let relays: RelayPool;
+	let tail: RemoteTail;
+	let output: string[];
+
+	setup(async () => {
+		server = await MockRelay.start({
+			files: {
+				"/console.log": "boot line\nLua error in init\nmap loaded\n"
+			}
+		});
+
+		relays = new RelayPool();
+		output = [];
+
+		await relays.getOrCreate("mock").connect(server.url, server.address, server.password, null);
+
+		tail = new RemoteTail(relays, new RemoteFileSystemProvider(relays, createContext()), remoteUri("mock", "/console.log"), {
+			appendLine: (line: string) => output.push(line),
+			show: () => { },
+			dispose: () => { }
+		}, {
+			filter: () => true,
+			interval: 60000,
+			initialBytes: 20
+		});
+	});
+
+	teardown(async () => {
+		tail.dispose();
+		relays.get("mock")?.disconnect();
+		await server.close();
+	});
+
+	test("starts near the end of the file and follows appended lines", async () => {
+		await tail.start();
+
+		assert.deepStrictEqual(output, ["map loaded"]);
+		assert.deepStrictEqual(server.rpcLog.find((rpc) => rpc.action === "FS.Read")?.payload, { path: "/console.log", offset: 19, length: 20 });
+
+		server.writeFileSync("/console.log", "boot line\nLua error in init\nmap loaded\nplayer joined\nhalf a li");
+		await tail.poll();
+		server.writeFileSync("/console.log", "boot line\nLua error in init\nmap loaded\nplayer joined\nhalf a line\n");
+		await tail.poll();
+
+		assert.deepStrictEqual(output, ["map loaded", "player joined", "half a line"]);
+	});
+
+	test("starts over when the file is truncated", async () => {
+		await tail.start();
+
+		server.writeFileSync("/console.log", "new log\n");
+		await tail.poll();
+
+		assert.deepStrictEqual(output, ["map loaded", "--- /console.log was truncated, reading from the start ---", "new log"]);
+	});
+
+	test("refuses to follow files on servers without ranged reads", async () => {
+		const legacy = await MockRelay.start({
+			capabilities: CLIENT_FEATURES.filter((feature) => feature !== "read_range"),
+			files: { "/console.log": "boot line\n" }
+		});
+
+		try {
+			await relays.getOrCreate("legacy").connect(legacy.url, legacy.address, legacy.password, null);
+
+			const legacyTail = new RemoteTail(relays, new RemoteFileSystemProvider(relays, createContext()), remoteUri("legacy", "/console.log"), {
+				appendLine: (line: string) => output.push(line),
+				show: () => { },
+				dispose: () => { }
+			}, {
+				filter: () => true,
+				interval: 60000,
+				initialBytes: 20
+			});
+
+			await assert.rejects(legacyTail.start(), /does not support reading part of a file/);
+			await assert.rejects(new RemoteFileSystemProvider(relays, createContext()).readRange(remoteUri("legacy", "/console.log"), 0), /does not support reading part of a file/);
+			assert.strictEqual(legacy.rpcLog.filter((rpc) => rpc.action === "FS.Read").length, 0);
+		} finally {
+			relays.get("legacy")?.disconnect();
+			await legacy.close();
+		}
+	});
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { RelayClient } from "../modules/relay";
+import { readTrace, redact, TraceRecorder } from "../modules/trace";
+import { TraceReplayServer } from "../modules/traceReplay";
+import { MockRelay } from "./mock/mockRelay";
+
+suite("Protocol trace", () => {
+	let directory: string;
+
+	setup(() => {
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "gmod-remote-trace-"));
+	});
+
+	teardown(() => {
+		fs.rmSync(directory, { recursive: true, force: true });
+	});
+
+	async function readAll(relay: RelayClient, filePath: string) {
+		const res = await relay.rpc("FS.Read", { path: filePath });
+
+		assert.ok(res.success);
+
+		const buffer: Buffer[] = [];
+
+		await relay.streamFillBuffer(res.requestId, buffer);
+
+		return Buffer.concat(buffer).toString("utf8");
+	}
+
+	test("redacts secrets", () => {
+		assert.deepStrictEqual(redact({ type: "client_hello", serverPassword: "hunter2", nested: [{ encryptionKey: "key" }] }), {
+			type: "client_hello",
+			serverPassword: "<redacted>",
+			nested: [{ encryptionKey: "<redacted>" }]
+		});
+	});
+
+	test("records decoded traffic and replays it", async () => {
+		const tracePath = path.join(directory, "trace.jsonl");
+		const server = await MockRelay.start({ encryptionKey: "secret", chunkSize: 4, files: { "/init.lua": "print('traced')" } });
+		const recorder = new TraceRecorder();
+		const relay = new RelayClient("mock");
+
+		recorder.start(tracePath);
+		recorder.attach(relay);
+
+		await relay.connect(server.url, server.address, server.password, "secret");
+		assert.strictEqual(await readAll(relay, "/init.lua"), "print('traced')");
+
+		relay.disconnect();
+		await server.close();
+		await recorder.stop();
+
+		const entries = readTrace(tracePath);
+		const hello = entries.find((entry) => entry.message.type === "client_hello");
+		const request = entries.find((entry) => entry.message.type === "client_rpc");
+
+		assert.ok(hello && "serverPassword" in hello.message && hello.message.serverPassword === "<redacted>");
+		assert.ok(request && "payload" in request.message && typeof request.message.payload === "object");
+		assert.ok(!fs.readFileSync(tracePath, "utf8").includes(server.password));
+
+		const replay = await TraceReplayServer.start(entries);
+		const replayed = new RelayClient("replay");
+
+		try {
+			await replayed.connect(replay.url, server.address, "", null);
+			assert.strictEqual(await readAll(replayed, "/init.lua"), "print('traced')");
+
+			const exhausted = await replayed.rpc("FS.Stat", { path: "/init.lua" });
+
+			assert.strictEqual(exhausted.error_code, "replay_exhausted");
+		} finally {
+			replayed.disconnect();
+			await replay.close();
+		}
+	});
+
+	test("rejects malformed traces", () => {
+		const tracePath = path.join(directory, "broken.jsonl");
+
+		fs.writeFileSync(tracePath, "{\"time\":0}\n");
+
+		assert.throws(() => readTrace(tracePath), /Line 1/);
+	});
+});
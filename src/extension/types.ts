@@ -1,13 +1,20 @@
-import { RelayClient } from "./modules/relay";
+import * as vscode from "vscode";
+import { IntegrityHasher } from "./modules/integrity";
+import { RelayPool } from "./modules/relayPool";
 import { RemoteFileSystemProvider } from "./providers/fileSystemProvider";
 import { SearchProvider } from "./providers/searchProvider";
 
+export type ServerMode = "relay" | "direct";
+
 export type Server = {
 	name: string;
 	address: string;
+	mode?: ServerMode;
 	relay: string;
+	listener?: string;
 	password: string;
 	encryptionKey: string;
+	proxy?: string;
 }
 
 export type SearchOptions = {
@@ -36,6 +43,107 @@ export type FileResult = {
 	}>;
 }
 
+export type RelayCipher = "none" | "xor" | "aes-256-gcm";
+
+export type RelayCompression = "none" | "deflate" | "br";
+export type IntegrityAlgorithm = "sha256" | "crc32";
+
+export type RelayFrameFormat = "legacy" | "tagged";
+
+export type RelayBinaryFrame = {
+	requestId: number;
+	sequence: number;
+	payload: Buffer;
+}
+
+export type RelayCancellationSignal = AbortSignal | vscode.CancellationToken;
+
+export type RelayRPCOptions = {
+	timeout?: number;
+	signal?: RelayCancellationSignal;
+}
+
+export type QueueOptions = {
+	enabled: boolean;
+	maxSize: number;
+	maxAge: number;
+}
+
+export type QueuedRPC = {
+	action: RelayRPCAction;
+	payload: RelayRPCRequest;
+	options: RelayRPCOptions;
+	resolve: (response: RelayRPCResponses) => void;
+	dispose: () => void;
+}
+
+export type StreamSummary = {
+	chunks?: number;
+	length?: number;
+	hash?: string;
+}
+
+export type PendingStream = {
+	onChunk: (chunk: Buffer<ArrayBufferLike>) => void;
+	onEnd: () => void;
+	onError?: (errorCode: string) => void;
+	nextSequence: number;
+	consumed: number;
+	acked: number;
+	paused: boolean;
+	buffered: Buffer<ArrayBufferLike>[];
+	received: number;
+	hasher: IntegrityHasher | null;
+	endedWith?: StreamSummary;
+	touch: () => void;
+	suspend: () => void;
+	dispose: () => void;
+}
+
+export type ReconnectOptions = {
+	initialDelay: number;
+	maxDelay: number;
+	multiplier: number;
+	jitter: number;
+	maxAttempts: number;
+}
+
+export type ServerLimits = {
+	maxFrameSize?: number;
+	maxConcurrentStreams?: number;
+}
+
+export type ServerCapabilities = {
+	protocolVersion: number;
+	features: Set<string>;
+	limits: ServerLimits;
+}
+
+export type ActionMetrics = {
+	count: number;
+	failures: number;
+	timeouts: number;
+	totalTime: number;
+	maxTime: number;
+	lastTime: number;
+}
+
+export type ConnectionEvent = {
+	time: number;
+	kind: "connecting" | "connected" | "disconnected" | "reconnecting" | "gaveUp";
+	detail?: string;
+}
+
+export type RelayMetricsSnapshot = {
+	latency: { time: number; rtt: number }[];
+	bytesSent: number;
+	bytesReceived: number;
+	actions: Record<string, ActionMetrics>;
+	failed: number;
+	timedOut: number;
+	connectionEvents: ConnectionEvent[];
+}
+
 export type ActiveConnection = {
 	server: Server;
 }
@@ -47,6 +155,17 @@ export type RelayClientRPCMessage = {
 	payload: string;
 }
 
+export type RelayClientRPCCancelMessage = {
+	type: "client_rpc_cancel";
+	requestId: number;
+}
+
+export type RelayClientRPCStreamAckMessage = {
+	type: "client_rpc_stream_ack";
+	requestId: number;
+	consumed: number;
+}
+
 export type RelayPingMessage = {
 	type: "ping";
 }
@@ -57,6 +176,13 @@ export type RelayPongMessage = {
 
 export type RelayClientHelloFailureMessage = {
 	type: "client_hello_failure";
+	reason?: string;
+}
+
+export type RelaySessionResume = {
+	token: string;
+	requests: number[];
+	streams: { requestId: number; nextSequence: number }[];
 }
 
 export type RelayClientHelloMessage = {
@@ -64,11 +190,33 @@ export type RelayClientHelloMessage = {
 	serverAddress: string;
 	serverPassword: string;
 	clientName?: string;
+	ciphers?: RelayCipher[];
+	cipherSalt?: string;
+	frameFormats?: RelayFrameFormat[];
+	protocolVersion?: number;
+	features?: string[];
+	compression?: RelayCompression[];
+	compressionThreshold?: number;
+	streamWindow?: number;
+	integrity?: IntegrityAlgorithm[];
+	resume?: RelaySessionResume;
 }
 
 export type RelayServerUpdateMessage = {
 	type: "server_update";
 	serverName: string;
+	cipher?: RelayCipher;
+	frameFormat?: RelayFrameFormat;
+	protocolVersion?: number;
+	minProtocolVersion?: number;
+	capabilities?: string[];
+	limits?: ServerLimits;
+	compression?: RelayCompression;
+	compressionThreshold?: number;
+	integrity?: IntegrityAlgorithm;
+	sessionToken?: string;
+	resumed?: boolean;
+	confirmation?: string;
 }
 
 export type RelayServerRPCResponseMessage = {
@@ -78,6 +226,19 @@ export type RelayServerRPCResponseMessage = {
 	response: string;
 }
 
+export type RemoteFileChangeType = "created" | "changed" | "deleted";
+
+export type RemoteFileChange = {
+	type: RemoteFileChangeType;
+	path: string;
+}
+
+export type RelayServerFileChangeMessage = {
+	type: "server_fs_change";
+	watchId: string;
+	payload: string;
+}
+
 export type RelayServerRPCStreamStartMessage = {
 	type: "server_rpc_stream_start";
 	requestId: number;
@@ -91,11 +252,15 @@ export type RelayServerRPCStreamChunkMessage = {
 export type RelayServerRPCStreamStopMessage = {
 	type: "server_rpc_stream_stop";
 	requestId: number;
+	chunks?: number;
+	length?: number;
+	hash?: string;
 }
 
 export type RelayRPCResponse = {
 	success: boolean;
 	error_code?: string;
+	error_message?: string;
 	requestId: number;
 }
 
@@ -111,7 +276,10 @@ export type RelayRPCResponseListFiles = RelayRPCResponse & Partial<{
 }>;
 
 export type RelayRPCResponseRead = RelayRPCResponse;
-export type RelayRPCResponseWrite = RelayRPCResponse;
+export type RelayRPCResponseWrite = RelayRPCResponse & {
+	hash?: string;
+}
+export type RelayRPCResponseWriteAtomic = RelayRPCResponseWrite;
 export type RelayRPCResponseDelete = RelayRPCResponse;
 export type RelayRPCResponseMkdir = RelayRPCResponse;
 export type RelayRPCResponseRename = RelayRPCResponse;
@@ -143,6 +311,12 @@ export type RelayRPCResponseSearch = RelayRPCResponse & Partial<{
 	}[];
 }>;
 
+export type RelayRPCResponseWatch = RelayRPCResponse & {
+	watchId?: string;
+}
+
+export type RelayRPCResponseUnwatch = RelayRPCResponse;
+
 export type RelayRPCRequestStat = {
 	path: string;
 }
@@ -153,17 +327,27 @@ export type RelayRPCRequestReadDirectory = {
 
 export type RelayRPCRequestReadFile = {
 	path: string;
+	offset?: number;
+	length?: number;
 }
 
 export type RelayRPCRequestWriteFile = {
 	path: string;
 	offset: number;
 	data: string;
+	hash?: string;
+}
+
+export type RelayRPCRequestWriteAtomic = {
+	path: string;
+	data: string;
+	hash?: string;
 }
 
 export type RelayRPCRequestCopy = {
 	from: string;
 	to: string;
+	overwrite?: boolean;
 }
 
 export type RelayRPCCreateDirectory = {
@@ -172,11 +356,13 @@ export type RelayRPCCreateDirectory = {
 
 export type RelayRPCRequestDelete = {
 	path: string;
+	recursive?: boolean;
 }
 
 export type RelayRPCRequestRename = {
 	from: string;
 	to: string;
+	overwrite?: boolean;
 }
 
 export type RelayRPCRequestTruncate = {
@@ -193,14 +379,95 @@ export type RelayRPCRequestSearch = {
 	excludeFiles: string;
 }
 
-export type RelayRPCRequest = RelayRPCRequestStat | RelayRPCRequestReadDirectory | RelayRPCRequestReadFile | RelayRPCRequestWriteFile | RelayRPCRequestCopy | RelayRPCCreateDirectory | RelayRPCRequestDelete | RelayRPCRequestRename | RelayRPCRequestTruncate | RelayRPCRequestSearch;
+export type RelayRPCRequestWatch = {
+	path: string;
+	recursive: boolean;
+	excludes: string[];
+}
+
+export type RelayRPCRequestUnwatch = {
+	watchId: string;
+}
+
+export type RelayRPCRequest = RelayRPCRequestStat | RelayRPCRequestReadDirectory | RelayRPCRequestReadFile | RelayRPCRequestWriteFile | RelayRPCRequestWriteAtomic | RelayRPCRequestCopy | RelayRPCCreateDirectory | RelayRPCRequestDelete | RelayRPCRequestRename | RelayRPCRequestTruncate | RelayRPCRequestSearch | RelayRPCRequestWatch | RelayRPCRequestUnwatch;
+
+export type RelayRPCResponses = RelayRPCResponseListFiles | RelayRPCResponseRead | RelayRPCResponseWrite | RelayRPCResponseWriteAtomic | RelayRPCResponseDelete | RelayRPCResponseMkdir | RelayRPCResponseRename | RelayRPCResponseCopy | RelayRPCResponseMove | RelayRPCResponseExists | RelayRPCResponseStat | RelayRPCResponseTruncate | RelayRPCResponseSearch | RelayRPCResponseWatch | RelayRPCResponseUnwatch;
+
+export type RelayRPCActions = {
+	"FS.Stat": { request: RelayRPCRequestStat; response: RelayRPCResponseStat };
+	"FS.ListFiles": { request: RelayRPCRequestReadDirectory; response: RelayRPCResponseListFiles };
+	"FS.Read": { request: RelayRPCRequestReadFile; response: RelayRPCResponseRead };
+	"FS.Write": { request: RelayRPCRequestWriteFile; response: RelayRPCResponseWrite };
+	"FS.WriteAtomic": { request: RelayRPCRequestWriteAtomic; response: RelayRPCResponseWriteAtomic };
+	"FS.Truncate": { request: RelayRPCRequestTruncate; response: RelayRPCResponseTruncate };
+	"FS.Copy": { request: RelayRPCRequestCopy; response: RelayRPCResponseCopy };
+	"FS.Mkdir": { request: RelayRPCCreateDirectory; response: RelayRPCResponseMkdir };
+	"FS.Delete": { request: RelayRPCRequestDelete; response: RelayRPCResponseDelete };
+	"FS.Rename": { request: RelayRPCRequestRename; response: RelayRPCResponseRename };
+	"FS.Search": { request: RelayRPCRequestSearch; response: RelayRPCResponseSearch };
+	"FS.Watch": { request: RelayRPCRequestWatch; response: RelayRPCResponseWatch };
+	"FS.Unwatch": { request: RelayRPCRequestUnwatch; response: RelayRPCResponseUnwatch };
+}
+
+export type RelayRPCAction = keyof RelayRPCActions;
+export type RelayRPCRequestFor<A extends RelayRPCAction> = RelayRPCActions[A]["request"];
+export type RelayRPCResponseFor<A extends RelayRPCAction> = RelayRPCActions[A]["response"];
 
-export type RelayRPCResponses = RelayRPCResponseListFiles | RelayRPCResponseRead | RelayRPCResponseWrite | RelayRPCResponseDelete | RelayRPCResponseMkdir | RelayRPCResponseRename | RelayRPCResponseCopy | RelayRPCResponseMove | RelayRPCResponseExists | RelayRPCResponseStat | RelayRPCResponseTruncate | RelayRPCResponseSearch;
+export type RelayMessage = RelayPingMessage | RelayPongMessage | RelayClientRPCMessage | RelayClientRPCCancelMessage | RelayClientRPCStreamAckMessage | RelayClientHelloMessage | RelayClientHelloFailureMessage | RelayServerUpdateMessage | RelayServerRPCResponseMessage | RelayServerRPCStreamStartMessage | RelayServerRPCStreamChunkMessage | RelayServerRPCStreamStopMessage | RelayServerFileChangeMessage;
 
-export type RelayMessage = RelayPingMessage | RelayPongMessage | RelayClientRPCMessage | RelayClientHelloMessage | RelayClientHelloFailureMessage | RelayServerUpdateMessage | RelayServerRPCResponseMessage | RelayServerRPCStreamStartMessage | RelayServerRPCStreamChunkMessage | RelayServerRPCStreamStopMessage;
+export type TraceDirection = "in" | "out";
+
+export type TraceBinaryFrame = {
+	type: "binary";
+	requestId: number;
+	sequence: number | null;
+	data?: string;
+	error?: string;
+}
+
+export type TraceRPCRequest = Omit<RelayClientRPCMessage, "payload"> & { payload: RelayRPCRequest };
+export type TraceRPCResponse = Omit<RelayServerRPCResponseMessage, "response"> & { response: RelayRPCResponses | string };
+export type TraceMessage = RelayMessage | TraceRPCRequest | TraceRPCResponse | TraceBinaryFrame;
+
+export type TraceEntry = {
+	time: number;
+	server: string;
+	direction: TraceDirection;
+	message: TraceMessage;
+}
+
+export type SyncMode = "push" | "pull" | "two-way";
+
+export type SyncMapping = {
+	server: string;
+	local: string;
+	remote: string;
+	mode: SyncMode;
+	ignore?: string[];
+	syncOnSave?: boolean;
+}
+
+export type SyncEntry = {
+	size: number;
+	modified: number;
+}
+
+export type SyncTree = Map<string, SyncEntry>;
+
+export type SyncBaseline = Record<string, {
+	local: number;
+	remote: number;
+}>;
+
+export type SyncActionType = "upload" | "download" | "deleteLocal" | "deleteRemote" | "conflict";
+
+export type SyncAction = {
+	type: SyncActionType;
+	path: string;
+}
 
 declare global {
 	var gmodRemoteFileSystemProvider: RemoteFileSystemProvider;
-	var gmodRemoteRelay: RelayClient;
+	var gmodRemoteRelays: RelayPool;
 	var gmodSearchProvider: SearchProvider;
 }
\ No newline at end of file